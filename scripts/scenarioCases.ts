@@ -0,0 +1,172 @@
+import {
+  CallScenarioHarness,
+  ICallScenarioConfig,
+} from "../src/callApi/simulation/index.ts"
+import {
+  CallAction,
+  CallStateReason,
+  CallStateType,
+  CallType,
+} from "../src/callApi/types/index.ts"
+
+/** 可运行的呼叫场景 */
+export interface ICallScenarioCase {
+  /** 场景名称 */
+  name: string
+  /** 场景配置 */
+  config: ICallScenarioConfig
+  /** 执行场景，断言失败时抛出异常 */
+  run: (scenario: CallScenarioHarness) => Promise<void>
+}
+
+const CALL_TIMEOUT = 15 * 1000
+
+/**
+ * 主叫呼叫，等待消息送达后被叫接听
+ */
+const callAndAccept = async (scenario: CallScenarioHarness) => {
+  await scenario.act(() => scenario.api(1).call(2, CallType.audio))
+  await scenario.advance(100)
+  await scenario.act(() => scenario.api(2).accept(1))
+}
+
+/**
+ * 双方都设置呼叫超时，首帧延迟为 firstFrameDelay
+ */
+const firstFrameConfig = (firstFrameDelay: number): ICallScenarioConfig => ({
+  users: [1, 2].map((userId) => ({
+    userId,
+    prepareConfig: { callTimeoutMillisecond: CALL_TIMEOUT },
+  })),
+  firstFrameDelay,
+})
+
+/** 脚本化的时序竞争场景（音频通话，不依赖 dom） */
+export const callScenarioCases: ICallScenarioCase[] = [
+  {
+    name: "accept dropped once is retransmitted",
+    config: { users: [1, 2] },
+    async run(scenario) {
+      scenario.dropMessages({ from: 2, action: CallAction.Accept })
+      await callAndAccept(scenario)
+      await scenario.advance(5 * 1000)
+      scenario.expectStates(1, [
+        CallStateType.prepared,
+        CallStateType.calling,
+        [CallStateType.connecting, CallStateReason.remoteAccepted],
+        CallStateType.connected,
+      ])
+    },
+  },
+  {
+    name: "cancel and accept cross",
+    // the cancel arrives before the caller leaving the rtc channel is noticed
+    config: { users: [1, 2], messageLatency: 50, mediaLatency: 100 },
+    async run(scenario) {
+      await scenario.act(() => scenario.api(1).call(2, CallType.audio))
+      await scenario.advance(100)
+      // the cancel and the accept are both in flight
+      await Promise.all([
+        scenario.act(() => scenario.api(1).cancelCall()),
+        scenario.act(() => scenario.api(2).accept(1)),
+      ])
+      await scenario.advance(5 * 1000)
+      scenario.expectStates(1, [
+        CallStateType.prepared,
+        CallStateType.calling,
+        [CallStateType.prepared, CallStateReason.localCancel],
+      ])
+      scenario.expectStates(2, [
+        CallStateType.prepared,
+        CallStateType.calling,
+        CallStateType.connecting,
+        [CallStateType.prepared, CallStateReason.remoteCancel],
+      ])
+    },
+  },
+  {
+    name: "cancel arrives after the callee connected",
+    config: { users: [1, 2], messageLatency: 50, mediaLatency: 100 },
+    async run(scenario) {
+      await scenario.act(() => scenario.api(1).call(2, CallType.audio))
+      await scenario.advance(100)
+      // the accept is slow, the callee receives the first frame before the caller cancels
+      scenario.delayMessages(
+        { from: 2, action: CallAction.Accept },
+        1000,
+        Infinity,
+      )
+      await scenario.act(() => scenario.api(2).accept(1))
+      await scenario.advance(200)
+      await scenario.act(() => scenario.api(1).cancelCall())
+      await scenario.advance(5 * 1000)
+      scenario.expectStates(1, [
+        CallStateType.prepared,
+        CallStateType.calling,
+        [CallStateType.prepared, CallStateReason.localCancel],
+      ])
+      scenario.expectStates(2, [
+        CallStateType.prepared,
+        CallStateType.calling,
+        CallStateType.connecting,
+        CallStateType.connected,
+        [CallStateType.prepared, CallStateReason.remoteCancel],
+      ])
+    },
+  },
+  {
+    name: "first frame just before calling timeout",
+    config: firstFrameConfig(CALL_TIMEOUT - 100),
+    async run(scenario) {
+      await callAndAccept(scenario)
+      await scenario.advance(CALL_TIMEOUT)
+      ;[1, 2].forEach((userId) =>
+        scenario.expectStates(userId, [
+          CallStateType.prepared,
+          CallStateType.calling,
+          CallStateType.connecting,
+          [CallStateType.connected, CallStateReason.recvRemoteFirstFrame],
+        ]),
+      )
+    },
+  },
+  {
+    name: "first frame at calling timeout",
+    config: firstFrameConfig(CALL_TIMEOUT),
+    async run(scenario) {
+      await callAndAccept(scenario)
+      await scenario.advance(CALL_TIMEOUT)
+      // the timeout timer is created first, so it wins
+      ;[1, 2].forEach((userId) =>
+        scenario.expectStates(userId, [
+          CallStateType.prepared,
+          CallStateType.calling,
+          CallStateType.connecting,
+          [CallStateType.prepared, CallStateReason.callingTimeout],
+        ]),
+      )
+    },
+  },
+  {
+    name: "both sides hang up",
+    config: { users: [1, 2], messageLatency: 50 },
+    async run(scenario) {
+      await callAndAccept(scenario)
+      await scenario.advance(1000)
+      await Promise.all([
+        scenario.act(() => scenario.api(1).hangup(2)),
+        scenario.act(() => scenario.api(2).hangup(1)),
+      ])
+      await scenario.advance(5 * 1000)
+      ;[1, 2].forEach((userId) =>
+        scenario.expectStates(userId, [
+          CallStateType.prepared,
+          CallStateType.calling,
+          CallStateType.connecting,
+          CallStateType.connected,
+          [CallStateType.prepared, CallStateReason.localHangup],
+        ]),
+      )
+    },
+  },
+]
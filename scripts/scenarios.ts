@@ -0,0 +1,33 @@
+// 运行 scripts/scenarioCases.ts 中的呼叫场景（node 环境，虚拟时钟）
+// yarn scenarios [名称过滤]
+
+import { CallScenarioHarness } from "../src/callApi/simulation/index.ts"
+import { callScenarioCases } from "./scenarioCases.ts"
+
+// node globals used by this script (@types/node is not installed)
+declare const process: { argv: string[]; exitCode?: number }
+
+const run = async (filter?: string) => {
+  let failed = 0
+  for (const item of callScenarioCases) {
+    if (filter && !item.name.includes(filter)) {
+      continue
+    }
+    const scenario = new CallScenarioHarness(item.config)
+    try {
+      await scenario.prepare()
+      await item.run(scenario)
+      console.log(`ok   ${item.name}`)
+    } catch (e: any) {
+      failed++
+      console.log(`fail ${item.name}\n  ${e?.message ?? e}`)
+    } finally {
+      await scenario.release()
+    }
+  }
+  return failed
+}
+
+run(process.argv[2]).then((failed) => {
+  process.exitCode = failed ? 1 : 0
+})
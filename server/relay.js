@@ -0,0 +1,154 @@
+// CallApi 信令中转服务（参考实现）
+// 按 userId 路由消息，配合 src/callApi/messageManager/websocket.ts 使用
+//
+// 未设置 RELAY_SECRET 时不校验 token，任何客户端都可以用任意 userId 登录（会踢掉该用户并收到他的信令），
+// 只能用于本地开发
+//
+// 环境变量:
+// RELAY_PORT       监听端口，默认 8090
+// RELAY_SECRET     token 校验密钥，token 为 HMAC-SHA256(RELAY_SECRET, userId) 的 hex，默认不校验
+// RELAY_TOKEN_TTL  token 有效期（秒），0 表示不校验过期，默认 0
+// RELAY_TOKEN_WARN token 过期前多少秒通知客户端续期，默认 30
+
+import { createHmac, timingSafeEqual } from "node:crypto"
+import { WebSocketServer } from "ws"
+
+const PORT = Number(process.env.RELAY_PORT || 8090)
+const SECRET = process.env.RELAY_SECRET || ""
+const TOKEN_TTL = Number(process.env.RELAY_TOKEN_TTL || 0) * 1000
+const TOKEN_WARN = Number(process.env.RELAY_TOKEN_WARN || 30) * 1000
+
+/** @type {Map<string, import("ws").WebSocket>} */
+const clients = new Map()
+
+const log = (...args) => {
+  console.log(`[relay] ${new Date().toISOString()}`, ...args)
+}
+
+const send = (ws, data) => {
+  if (ws.readyState === ws.OPEN) {
+    ws.send(JSON.stringify(data))
+  }
+}
+
+const verifyToken = (userId, token) => {
+  if (!SECRET) {
+    return true
+  }
+  if (typeof token != "string" || !token) {
+    return false
+  }
+  const expected = createHmac("sha256", SECRET).update(userId).digest()
+  const actual = Buffer.from(token, "hex")
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+const clearTokenTimers = (ws) => {
+  clearTimeout(ws.tokenWarnTimer)
+  clearTimeout(ws.tokenExpireTimer)
+}
+
+const startTokenTimers = (ws) => {
+  clearTokenTimers(ws)
+  if (!TOKEN_TTL) {
+    return
+  }
+  ws.tokenWarnTimer = setTimeout(
+    () => send(ws, { type: "tokenWillExpire" }),
+    Math.max(TOKEN_TTL - TOKEN_WARN, 0),
+  )
+  ws.tokenExpireTimer = setTimeout(() => {
+    log(`token expired, userId:${ws.userId}`)
+    ws.close(4001, "token expired")
+  }, TOKEN_TTL)
+}
+
+const handleLogin = (ws, data) => {
+  const userId = data.userId?.toString()
+  if (!userId) {
+    send(ws, { type: "error", seq: data.seq, code: "INVALID_USER_ID", message: "userId is required" })
+    return
+  }
+  if (!verifyToken(userId, data.token)) {
+    send(ws, { type: "error", seq: data.seq, code: "INVALID_TOKEN", message: "token is invalid" })
+    log(`login rejected, invalid token, userId:${userId}`)
+    return
+  }
+  const exist = clients.get(userId)
+  if (exist && exist !== ws) {
+    // same user login again, kick the old connection
+    exist.close(4002, "login elsewhere")
+  }
+  ws.userId = userId
+  clients.set(userId, ws)
+  startTokenTimers(ws)
+  send(ws, { type: "ack", seq: data.seq })
+  log(`login, userId:${userId}, online:${clients.size}`)
+}
+
+const handleMessage = (ws, data) => {
+  if (!ws.userId) {
+    send(ws, { type: "error", seq: data.seq, code: "NOT_LOGIN", message: "please login first" })
+    return
+  }
+  const target = clients.get(data.to?.toString())
+  if (!target) {
+    send(ws, { type: "error", seq: data.seq, code: "USER_OFFLINE", message: `userId:${data.to} is offline` })
+    return
+  }
+  send(target, { type: "message", from: ws.userId, payload: data.payload })
+  send(ws, { type: "ack", seq: data.seq })
+}
+
+const handleRenewToken = (ws, data) => {
+  if (!ws.userId) {
+    send(ws, { type: "error", seq: data.seq, code: "NOT_LOGIN", message: "please login first" })
+    return
+  }
+  if (!verifyToken(ws.userId, data.token)) {
+    send(ws, { type: "error", seq: data.seq, code: "INVALID_TOKEN", message: "token is invalid" })
+    return
+  }
+  startTokenTimers(ws)
+  send(ws, { type: "ack", seq: data.seq })
+  log(`renew token, userId:${ws.userId}`)
+}
+
+const wss = new WebSocketServer({ port: PORT })
+
+wss.on("connection", (ws) => {
+  ws.on("message", (raw) => {
+    let data
+    try {
+      data = JSON.parse(raw.toString())
+    } catch (e) {
+      send(ws, { type: "error", code: "INVALID_FRAME", message: "frame is not json" })
+      return
+    }
+    switch (data.type) {
+      case "login":
+        handleLogin(ws, data)
+        break
+      case "message":
+        handleMessage(ws, data)
+        break
+      case "renewToken":
+        handleRenewToken(ws, data)
+        break
+      default:
+        send(ws, { type: "error", seq: data.seq, code: "UNKNOWN_TYPE", message: `unknown type:${data.type}` })
+    }
+  })
+  ws.on("close", () => {
+    clearTokenTimers(ws)
+    if (ws.userId && clients.get(ws.userId) === ws) {
+      clients.delete(ws.userId)
+      log(`logout, userId:${ws.userId}, online:${clients.size}`)
+    }
+  })
+})
+
+log(`listening on ws://localhost:${PORT}`)
+if (!SECRET) {
+  log("RELAY_SECRET is not set, tokens are not verified, for local development only")
+}
@@ -8,7 +8,7 @@ import { createClient, IAgoraRTCClient } from "agora-rtc-sdk-ng/esm"
 import AgoraRTM from "agora-rtm"
 import {
   CallRtmMessageManager, LogLevel, CallApi, CallStateType,
-  CallErrorCodeType, CallStateReason, CallErrorEvent
+  CallErrorCodeType, CallStateReason, CallErrorEvent, CallType, CallEvent
 } from "./callApi"
 import { message } from 'antd';
 import VConsole from "vconsole"
@@ -36,6 +36,9 @@ function App() {
   const [firstFrameWaittingDisabled, setFirstFrameWaittingDisabled] = useState(false)
   const [state, setState] = useState(CallStateType.idle)
   const [eventInfo, setEventInfo] = useState<any>({})
+  const [muteState, setMuteState] = useState({ audio: false, video: false })
+  const [screenSharing, setScreenSharing] = useState(false)
+  const [switchRequested, setSwitchRequested] = useState(false)
   // eventInfo.fromUserId => 指向本次通话的主叫方
   // eventInfo.remoteUserId => 指向本次通话的被叫方
 
@@ -86,6 +89,8 @@ function App() {
       callMessageManager,
       rtcClient: rtcClient,
       logLevel: LogLevel.DEBUG,
+      // rtc token and rtm token are the same token in this demo
+      tokenProvider: () => apiGenerateToken(localUserId),
     })
     // listen callApi event
     addCallApiEventListener()
@@ -114,6 +119,9 @@ function App() {
       "callStateChanged",
       (state, stateReason, eventReason, eventInfo) => {
         setState(state)
+        setMuteState(callApi.localMuteState)
+        setScreenSharing(!!callApi.localTracks.screenTrack)
+        setSwitchRequested(false)
         switch (state) {
           case CallStateType.prepared:
             setEventInfo(eventInfo)
@@ -133,6 +141,27 @@ function App() {
       },
     )
 
+    callApi.on("callEventChanged", (event) => {
+      if (
+        event == CallEvent.localScreenShareStarted ||
+        event == CallEvent.localScreenShareStopped
+      ) {
+        setScreenSharing(event == CallEvent.localScreenShareStarted)
+      }
+      switch (event) {
+        case CallEvent.remoteSwitchCallTypeRequested:
+          setSwitchRequested(true)
+          break
+        case CallEvent.callTypeChanged:
+          setSwitchRequested(false)
+          setScreenSharing(!!callApi.localTracks.screenTrack)
+          break
+        case CallEvent.switchCallTypeDeclined:
+          message.info("对方拒绝切换")
+          break
+      }
+    })
+
     callApi.on("callError", (errorEvent, errorType, errorCode, errMessage) => {
       switch (errorType) {
         case CallErrorCodeType.normal:
@@ -167,7 +196,7 @@ function App() {
     })
   }
 
-  const call = async () => {
+  const call = async (callType: CallType = CallType.video) => {
     if (!checkRemoteUserId()) {
       return
     }
@@ -176,7 +205,7 @@ function App() {
       roomId: uuidv4(),
     })
     try {
-      await callApi.call(remoteUserId)
+      await callApi.call(remoteUserId, callType)
     } catch (e: any) {
       message.error(`call failed! ${e.message}`)
     }
@@ -224,6 +253,59 @@ function App() {
 
   }
 
+  const toggleMuteAudio = async () => {
+    if (muteState.audio) {
+      await callApi.unmuteAudio()
+    } else {
+      await callApi.muteAudio()
+    }
+    setMuteState(callApi.localMuteState)
+  }
+
+  const toggleMuteVideo = async () => {
+    if (muteState.video) {
+      await callApi.unmuteVideo()
+    } else {
+      await callApi.muteVideo()
+    }
+    setMuteState(callApi.localMuteState)
+  }
+
+  const toggleScreenShare = async () => {
+    try {
+      if (screenSharing) {
+        await callApi.stopScreenShare()
+      } else {
+        await callApi.startScreenShare()
+      }
+    } catch (e: any) {
+      message.error(`screen share failed! ${e.message}`)
+    }
+  }
+
+  const switchCallType = async () => {
+    try {
+      await callApi.requestSwitchCallType(
+        callApi.callType == CallType.video ? CallType.audio : CallType.video,
+      )
+    } catch (e: any) {
+      message.error(`switch call type failed! ${e.message}`)
+    }
+  }
+
+  const replySwitchCallType = async (accept: boolean) => {
+    setSwitchRequested(false)
+    try {
+      if (accept) {
+        await callApi.acceptSwitchCallType()
+      } else {
+        await callApi.declineSwitchCallType()
+      }
+    } catch (e: any) {
+      message.error(`reply switch call type failed! ${e.message}`)
+    }
+  }
+
   const checkRemoteUserId = () => {
     if (!remoteUserId) {
       message.error("please input remoteUserId!")
@@ -242,11 +324,18 @@ function App() {
       <button onClick={onClickFirstFrameWaittingDisabled}>音频首帧与接通相关 {String(!firstFrameWaittingDisabled)}</button>
     </div>
     <div className="item">
-      {state == CallStateType.prepared ? <button onClick={call}>call 呼叫</button> : null}
-      {state == CallStateType.calling && role == Role.Caller ? <button onClick={cancelCall}>cancelCall 取消呼叫</button> : null}
-      {state == CallStateType.calling && role == Role.Called ? <button onClick={accept}>accept 接受</button> : null}
-      {state == CallStateType.calling && role == Role.Called ? <button onClick={reject}>reject 拒绝</button> : null}
-      {state !== CallStateType.prepared && state !== CallStateType.idle ? <button onClick={hangup}>hangup 挂断</button> : null}
+      {callApi?.canCall() ? <button onClick={() => call(CallType.video)}>call 呼叫</button> : null}
+      {callApi?.canCall() ? <button onClick={() => call(CallType.audio)}>audio call 音频呼叫</button> : null}
+      {callApi?.canCancelCall() ? <button onClick={cancelCall}>cancelCall 取消呼叫</button> : null}
+      {callApi?.canAccept() ? <button onClick={accept}>accept 接受</button> : null}
+      {callApi?.canReject() ? <button onClick={reject}>reject 拒绝</button> : null}
+      {callApi?.canHangup() ? <button onClick={hangup}>hangup 挂断</button> : null}
+      {state == CallStateType.connected ? <button onClick={toggleMuteAudio}>{muteState.audio ? "unmute audio 打开麦克风" : "mute audio 关闭麦克风"}</button> : null}
+      {state == CallStateType.connected ? <button onClick={toggleMuteVideo}>{muteState.video ? "unmute video 打开摄像头" : "mute video 关闭摄像头"}</button> : null}
+      {state == CallStateType.connected ? <button onClick={toggleScreenShare}>{screenSharing ? "stop share 停止共享" : "share screen 共享屏幕"}</button> : null}
+      {state == CallStateType.connected ? <button onClick={switchCallType}>{callApi.callType == CallType.video ? "switch to audio 切换为音频" : "switch to video 切换为视频"}</button> : null}
+      {switchRequested ? <button onClick={() => replySwitchCallType(true)}>accept video 同意切换为视频</button> : null}
+      {switchRequested ? <button onClick={() => replySwitchCallType(false)}>decline video 拒绝切换为视频</button> : null}
     </div>
     {state == CallStateType.connected ?
       <div className="item">
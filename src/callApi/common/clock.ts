@@ -0,0 +1,176 @@
+import { ICallClock } from "../types"
+
+/**
+ * 系统时钟（Date.now 和全局定时器）
+ */
+export class CallSystemClock implements ICallClock {
+  now() {
+    return Date.now()
+  }
+
+  setTimeout(callback: () => void, delay: number) {
+    return setTimeout(callback, delay)
+  }
+
+  clearTimeout(timer: any) {
+    clearTimeout(timer)
+  }
+
+  setInterval(callback: () => void, interval: number) {
+    return setInterval(callback, interval)
+  }
+
+  clearInterval(timer: any) {
+    clearInterval(timer)
+  }
+}
+
+/** 默认的系统时钟 */
+export const systemClock: ICallClock = new CallSystemClock()
+
+interface IVirtualTimer {
+  time: number
+  callback: () => void
+  interval?: number
+}
+
+const MAX_RUN_STEPS = 10000
+
+/**
+ * 等待已排队的 promise 回调执行完
+ */
+const flushPromises = () => {
+  return new Promise<void>((resolve) => setTimeout(resolve, 0))
+}
+
+/**
+ * 虚拟时钟
+ *
+ * 时间只在调用 advance / runAll 时前进，定时器按触发时间（相同时按创建顺序）依次执行，
+ * 用于稳定复现超时和消息交错等时序问题
+ */
+export class CallVirtualClock implements ICallClock {
+  private _now: number
+  private _nextId = 1
+  private _timers: Map<number, IVirtualTimer> = new Map()
+
+  /** 待执行的定时器数量 */
+  get pendingCount() {
+    return this._timers.size
+  }
+
+  /**
+   * @param startTime 起始时间戳（毫秒），默认 0
+   */
+  constructor(startTime: number = 0) {
+    this._now = startTime
+  }
+
+  now() {
+    return this._now
+  }
+
+  setTimeout(callback: () => void, delay: number) {
+    const id = this._nextId++
+    this._timers.set(id, { time: this._now + Math.max(delay, 0), callback })
+    return id
+  }
+
+  clearTimeout(timer: any) {
+    this._timers.delete(timer)
+  }
+
+  setInterval(callback: () => void, interval: number) {
+    const id = this._nextId++
+    interval = Math.max(interval, 1)
+    this._timers.set(id, { time: this._now + interval, callback, interval })
+    return id
+  }
+
+  clearInterval(timer: any) {
+    this._timers.delete(timer)
+  }
+
+  /**
+   * 时间前进，依次执行到期的定时器（每个定时器执行后等待其触发的异步流程执行完）
+   * @param ms 前进的时间（毫秒）
+   */
+  async advance(ms: number) {
+    const target = this._now + ms
+    await flushPromises()
+    let steps = 0
+    while (this._runNext(target)) {
+      await flushPromises()
+      if (++steps > MAX_RUN_STEPS) {
+        throw new Error("advance failed! too many timers, maybe a loop")
+      }
+    }
+    this._now = Math.max(this._now, target)
+    await flushPromises()
+  }
+
+  /**
+   * 时间前进到下一个定时器并执行它
+   * @param until 最多前进到的时间戳，默认不限制
+   * @returns 没有需要执行的定时器时返回 false
+   */
+  async step(until: number = Infinity) {
+    await flushPromises()
+    const ran = this._runNext(until)
+    await flushPromises()
+    return ran
+  }
+
+  /**
+   * 执行所有的延时定时器，直到没有待执行的延时定时器（不等待 setInterval）
+   */
+  async runAll() {
+    await flushPromises()
+    let steps = 0
+    while (true) {
+      const next = this._findNext(Infinity, true)
+      if (!next) {
+        return
+      }
+      this._runNext(next.time)
+      await flushPromises()
+      if (++steps > MAX_RUN_STEPS) {
+        throw new Error("runAll failed! too many timers, maybe a loop")
+      }
+    }
+  }
+
+  //  ---------------------------- private ----------------------------
+
+  private _findNext(until: number, timeoutOnly: boolean = false) {
+    let next: (IVirtualTimer & { id: number }) | undefined
+    this._timers.forEach((timer, id) => {
+      if (timer.time > until || (timeoutOnly && timer.interval)) {
+        return
+      }
+      if (!next || timer.time < next.time) {
+        next = { ...timer, id }
+      }
+    })
+    return next
+  }
+
+  private _runNext(until: number) {
+    const next = this._findNext(until)
+    if (!next) {
+      return false
+    }
+    this._now = Math.max(this._now, next.time)
+    if (next.interval) {
+      this._timers.set(next.id, {
+        time: next.time + next.interval,
+        callback: next.callback,
+        interval: next.interval,
+      })
+    } else {
+      this._timers.delete(next.id)
+    }
+    next.callback()
+    return true
+  }
+}
@@ -1,3 +1,4 @@
 export * from "./utils"
 export * from "./events"
 export * from "./logger"
+export * from "./clock"
@@ -1,53 +1,132 @@
-import { LogLevel } from "../types"
-import { logger as rtcLogger } from "@agora-js/report"
-
-// tip: 由于 rtc sdk log 一版是设置 setLogLevel(1) 为 info 级别，
-// 所以这里的 logger  debug 级别 对应 rtc sdk 的 info 级别
+import { ICallClock, ICallLogEntry, LogLevel } from "../types"
+import { CallLogSink, CallReportLogSink } from "../logSink"
+import { systemClock } from "./clock"
 
 export interface LoggerConfig {
   level?: LogLevel
   prefix?: string
+  sinks?: CallLogSink[]
+  clock?: ICallClock
 }
 
-class Logger {
+/** 日志上下文（输出日志时的通话ID和呼叫状态） */
+export type LoggerContext = () => Pick<ICallLogEntry, "callId" | "state">
+
+const REDACTED = "***"
+
+const formatLogArg = (arg: any): string => {
+  if (typeof arg == "string") {
+    return arg
+  }
+  if (arg instanceof Error) {
+    return arg.stack || `${arg.name}: ${arg.message}`
+  }
+  try {
+    return JSON.stringify(arg) ?? String(arg)
+  } catch (e) {
+    return String(arg)
+  }
+}
+
+const escapeRegExp = (str: string) => {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * 隐藏日志中的敏感信息
+ * @param message 日志内容
+ * @param keys 需要隐藏的字段（忽略大小写，匹配 key:value、key=value 和 json 格式）
+ * @param values 需要隐藏的值（例如 token 本身）
+ */
+export const redactLogMessage = (
+  message: string,
+  keys: string[],
+  values: string[] = [],
+) => {
+  let result = message
+  values
+    .filter((value) => !!value)
+    .forEach((value) => {
+      result = result.split(value).join(REDACTED)
+    })
+  keys.forEach((key) => {
+    const reg = new RegExp(
+      `("?${escapeRegExp(key)}"?\\s*[:=]\\s*)("[^"]*"|[^,\\s&}"]+)`,
+      "gi",
+    )
+    result = result.replace(reg, (_, name: string, value: string) =>
+      value.startsWith('"') ? `${name}"${REDACTED}"` : `${name}${REDACTED}`,
+    )
+  })
+  return result
+}
+
+export class Logger {
   level: LogLevel = LogLevel.ERROR
   prefix?: string = ""
   preTime?: number = 0
+  sinks: CallLogSink[] = [new CallReportLogSink()]
+  context?: LoggerContext
+  clock: ICallClock = systemClock
 
   constructor(config: LoggerConfig) {
-    const { level, prefix } = config
+    const { level, prefix, sinks, clock } = config
     if (level !== undefined) {
       this.level = level
     }
     if (prefix) {
       this.prefix = prefix
     }
+    if (sinks) {
+      this.sinks = sinks
+    }
+    if (clock) {
+      this.clock = clock
+    }
   }
 
   setLogLevel(level: LogLevel) {
     this.level = level
   }
 
+  /**
+   * 设置日志输出目标
+   * @param sinks 日志输出目标
+   */
+  setSinks(sinks: CallLogSink[]) {
+    this.sinks = sinks
+  }
+
+  /**
+   * 设置时钟（日志的时间戳）
+   * @param clock 时钟
+   */
+  setClock(clock: ICallClock) {
+    this.clock = clock
+  }
+
+  /**
+   * 设置日志上下文，每条日志都会带上上下文中的通话ID和呼叫状态
+   * @param context 日志上下文
+   */
+  setContext(context?: LoggerContext) {
+    this.context = context
+  }
+
   debug(...args: any[]) {
-    if (this.level <= LogLevel.DEBUG) {
-      this._log(...args);
-    }
+    this._write(LogLevel.DEBUG, args)
   }
 
   warn(...args: any[]) {
-    if (this.level <= LogLevel.WARN) {
-      this._warn(...args);
-    }
+    this._write(LogLevel.WARN, args)
   }
 
   error(...args: any[]) {
-    if (this.level <= LogLevel.ERROR) {
-      this._err(...args);
-    }
+    this._write(LogLevel.ERROR, args)
   }
 
   time(...args: any[]) {
-    const time = new Date().getTime()
+    const time = this.clock.now()
     let cost = 0
     let start = ""
     if (this.preTime) {
@@ -56,49 +135,47 @@ class Logger {
       start = "start"
     }
     this.preTime = time
-    if (this.level <= LogLevel.DEBUG) {
-      this._log(
-        `${this._genPrefix()}[time]:  -------------- cost:${cost}ms ${start} -----------------   \n`,
-        ...args,
-      );
-    }
+    this._write(LogLevel.DEBUG, [
+      `[time]:  -------------- cost:${cost}ms ${start} -----------------   \n`,
+      ...args,
+    ])
   }
 
   timeEnd(...args: any[]) {
-    const time = new Date().getTime()
+    const time = this.clock.now()
     let cost = 0
     if (this.preTime) {
       cost = time - this.preTime
     }
     this.preTime = 0
-    if (this.level <= LogLevel.DEBUG) {
-      this._log(
-        `${this._genPrefix()}[time]:  -------------- cost:${cost}ms end -----------------   \n`,
-        ...args,
-      );
-    }
+    this._write(LogLevel.DEBUG, [
+      `[time]:  -------------- cost:${cost}ms end -----------------   \n`,
+      ...args,
+    ])
   }
 
   //  ---------------------------- private ----------------------------
 
-  private _log(...args: any[]) {
-    rtcLogger.info(this._genPrefix(), ...args)
-  }
-
-  private _warn(...args: any[]) {
-    rtcLogger.warn(this._genPrefix(), ...args)
-  }
-
-  private _err(...args: any[]) {
-    rtcLogger.error(this._genPrefix(), ...args)
-  }
-
-  private _genPrefix() {
-    return this.prefix ? ` [${this.prefix}]` : ""
+  private _write(level: LogLevel, args: any[]) {
+    const sinks = this.sinks.filter(
+      (sink) => level >= (sink.level ?? this.level),
+    )
+    if (!sinks.length) {
+      return
+    }
+    const entry: ICallLogEntry = {
+      level,
+      timestamp: this.clock.now(),
+      prefix: this.prefix || "",
+      message: args.map(formatLogArg).join(" "),
+      ...this.context?.(),
+    }
+    sinks.forEach((sink) => {
+      try {
+        sink.write(entry)
+      } catch (e) {
+        // a broken sink should not break the call flow
+      }
+    })
   }
 }
-
-export const logger = new Logger({
-  level: LogLevel.ERROR,
-  prefix: "CallApi",
-})
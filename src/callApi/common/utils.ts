@@ -10,8 +10,19 @@ export const genDivHtmlElement = () => {
   return node
 }
 
-export const LOCAL_VIEW_ELEMENT = genDivHtmlElement()
-export const REMOTE_VIEW_ELEMENT = genDivHtmlElement()
+/**
+ * 视频关闭时覆盖在视图上的占位元素
+ */
+export const genPlaceholderElement = () => {
+  const node = genDivHtmlElement()
+  node.style.position = "absolute"
+  node.style.top = "0"
+  node.style.left = "0"
+  node.style.zIndex = "1"
+  node.style.background = "#1a1a1a"
+  node.dataset.placeholder = "video-muted"
+  return node
+}
 
 function _pad(num: number) {
   return num.toString().padStart(2, "0")
@@ -1,13 +1,23 @@
-import {
+import type {
+  DeviceInfo,
   IAgoraRTCClient,
-  enableLogUpload,
-  setParameter,
-  createClient,
-  setLogLevel,
-  createMicrophoneAndCameraTracks,
+  CameraVideoTrackInitConfig,
 } from "agora-rtc-sdk-ng/esm"
 import { CallInfo } from "./callInfo"
-import { CallMessage } from "./callMessage"
+import {
+  CallMessage,
+  CALL_MESSAGE_VERSION,
+  redactExtension,
+} from "./callMessage"
+import { CallReceipt } from "./callReceipt"
+import { CallGroup } from "./callGroup"
+import { CallStateMachine } from "./callStateMachine"
+import { CallRecorder } from "./callRecorder"
+import { CallStats } from "./callStats"
+import { CallTracer } from "./callTracer"
+import { CallRecordStore, CallMemoryRecordStore } from "../recordStore"
+import { CallMemoryLogSink, CallReportLogSink } from "../logSink"
+import { CallAgoraMediaEngine } from "../mediaEngine"
 import {
   ICallConfig,
   IPrepareConfig,
@@ -24,35 +34,163 @@ import {
   CallEvent,
   CallErrorEvent,
   CallErrorCodeType,
+  CallTokenType,
+  RtmLostPolicy,
+  CallMode,
+  ParticipantState,
+  ICallParticipant,
+  CallRole,
+  CallMessageErrorCode,
+  CallMessageManagerEvents,
+  CallMediaEngineEvents,
+  CallDirection,
+  CallOutcome,
+  ICallRecord,
+  ICallRecordQuery,
+  IMuteState,
+  ICallDevices,
+  ICallLogEntry,
+  ICallMediaEngine,
+  ICallClock,
+  CallTraceType,
+  ICallTrace,
 } from "../types"
 import {
   AGEventEmitter,
-  logger,
+  Logger,
+  redactLogMessage,
   serializeHTMLElement,
-  LOCAL_VIEW_ELEMENT,
-  REMOTE_VIEW_ELEMENT,
   uuidv4,
+  genDivHtmlElement,
+  genPlaceholderElement,
+  systemClock,
 } from "../common"
 
-enableLogUpload()
-setLogLevel(1)
-setParameter("ENABLE_INSTANT_VIDEO", true)
+const DEFAULT_RECEIPT_RETRY_INTERVAL = 1000
+const DEFAULT_RECEIPT_MAX_RETRY_INTERVAL = 4000
+const DEFAULT_RECEIPT_TIMEOUT = 10 * 1000
+const DEFAULT_STATS_INTERVAL = 2000
+const DEFAULT_RTC_RECONNECT_TIMEOUT = 20 * 1000
+const DEFAULT_RTM_LOST_TIMEOUT = 15 * 1000
+const DEFAULT_SWITCH_CALL_TYPE_TIMEOUT = 15 * 1000
+const SWITCH_CALL_TYPE_LATE_ACCEPT_WINDOW = 30 * 1000
+const DEFAULT_DURATION_TICK_INTERVAL = 1000
+const DEFAULT_CALL_DURATION_WARNING = 60 * 1000
+const DEFAULT_LOG_REDACT_KEYS = [
+  "token",
+  "appCertificate",
+  "secret",
+  "signature",
+]
+
+type VideoFacingMode = NonNullable<CameraVideoTrackInitConfig["facingMode"]>
+
+/** 被保持的通话 */
+interface IHeldCall {
+  callId: string
+  remoteUserId: number
+  roomId: string
+  callType: CallType
+  role?: CallRole
+  connectedTime: number
+}
 
 export class CallApi extends AGEventEmitter<CallApiEvents> {
   callConfig: ICallConfig
   prepareConfig: IPrepareConfig = {}
-  state: CallStateType = CallStateType.idle
   remoteUserId: number = 0
   localTracks: ILocalTracks = {}
   remoteTracks: IRemoteTracks = {}
-  rtcClient?: IAgoraRTCClient
+  /** 媒体引擎 */
+  mediaEngine: ICallMediaEngine
+  /** 时钟（时间和定时器） */
+  clock: ICallClock
   callType: CallType = CallType.video
+  callMode: CallMode = CallMode.single
+  /** 通话记录存储 */
+  callRecordStore: CallRecordStore
+  /** 本地静音状态（通话结束后重置） */
+  localMuteState: IMuteState = { audio: false, video: false }
+  /** 日志（每个实例独立） */
+  logger = new Logger({
+    level: LogLevel.ERROR,
+    prefix: "CallApi",
+  })
   // ------- private -------
-  private _callInfo: CallInfo = new CallInfo()
-  private _callMessage = new CallMessage()
+  private _callInfo: CallInfo
+  private _callMessage: CallMessage
+  private _callReceipt: CallReceipt
+  private _callGroup = new CallGroup()
+  private _stateMachine = new CallStateMachine()
+  private _callRecorder: CallRecorder
+  private _callStats: CallStats
+  private _statsTimer: any = null
   private _rtcJoined: boolean = false
   private _receiveRemoteFirstFrameDecoded = false
   private _cancelCallTimer: any = null
+  private _rtmLost: boolean = false
+  private _rtmLostTimer: any = null
+  private _waitingCall?: ICallMessage
+  private _waitingCallTimer: any = null
+  private _waitingCallRecord?: ICallRecord
+  private _heldCall?: IHeldCall
+  /** 支持消息回执的用户（收到过带 messageId 的消息或回执） */
+  private _receiptUsers: Set<number> = new Set()
+  private _remoteHeld: boolean = false
+  private _remoteMuteStates: Map<number, IMuteState> = new Map()
+  private _placeholders: Map<number, HTMLElement> = new Map()
+  private _speakerId?: string
+  private _remoteScreenSharing: Set<number> = new Set()
+  private _localSwitchCallType?: CallType
+  private _remoteSwitchCallType?: CallType
+  private _switchCallTypeTimer: any = null
+  /** 最近一次超时的切换请求，与取消交错到达的同意仍会切换 */
+  private _timedOutSwitchCallType?: { callType: CallType; time: number }
+  private _rtcReconnecting: boolean = false
+  private _rtcReconnectTimer: any = null
+  private _remoteReconnectTimer: any = null
+  private _connectedTime: number = 0
+  private _durationTickTimer: any = null
+  private _durationWarningTimer: any = null
+  private _durationLimitTimer: any = null
+  private _logBuffer: CallMemoryLogSink
+  /** 使用过的所有 token，导出日志时隐藏 */
+  private _tokens: Set<string> = new Set()
+  private _callTracer: CallTracer
+  /** 移除消息管理器和媒体引擎事件监听的回调，release 时执行 */
+  private _listenerRemovers: (() => void)[] = []
+  /** 媒体引擎是否由 CallApi 创建（外部传入的不在 release 时释放） */
+  private _ownMediaEngine: boolean
+  private _localViewNode?: HTMLElement
+  private _remoteViewNode?: HTMLElement
+
+  /** 呼叫状态 */
+  get state(): CallStateType {
+    return this._stateMachine.state
+  }
+
+  /** 本次通话中的角色 */
+  get role(): CallRole | undefined {
+    return this._stateMachine.role
+  }
+
+  /**
+   * rtc client 实例（仅使用 CallAgoraMediaEngine 时存在）
+   *
+   * 传入 callConfig.rtcClient 时同步可用；未传入时 rtc sdk 按需加载，加载完成前为 undefined，
+   * 需要在创建后立即使用时请使用 getRtcClient 等待 sdk 加载完成
+   */
+  get rtcClient(): IAgoraRTCClient | undefined {
+    if (!(this.mediaEngine instanceof CallAgoraMediaEngine)) {
+      return undefined
+    }
+    if (!this.mediaEngine.client) {
+      this.logger.warn(
+        "rtcClient is undefined before the rtc sdk is loaded, use getRtcClient instead",
+      )
+    }
+    return this.mediaEngine.client
+  }
 
   get callMessageManager() {
     return this.callConfig.callMessageManager
@@ -62,6 +200,21 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
     return this.prepareConfig?.roomId || ""
   }
 
+  /** 等待中的呼叫的主叫用户ID（没有等待中的呼叫时为0） */
+  get waitingUserId() {
+    return Number(this._waitingCall?.fromUserId ?? 0)
+  }
+
+  /** 被保持的通话的远端用户ID（没有被保持的通话时为0） */
+  get heldUserId() {
+    return this._heldCall?.remoteUserId ?? 0
+  }
+
+  /** 群组通话成员（不包含自己） */
+  get participants(): ICallParticipant[] {
+    return this._callGroup.list()
+  }
+
   get isBusy() {
     return (
       this.state == CallStateType.calling ||
@@ -70,19 +223,64 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
     )
   }
 
+  // created on first use, CallApi can be created without dom (e.g. in node)
+  private get _localViewElement() {
+    if (!this._localViewNode) {
+      this._localViewNode = genDivHtmlElement()
+    }
+    return this._localViewNode
+  }
+
+  private get _remoteViewElement() {
+    if (!this._remoteViewNode) {
+      this._remoteViewNode = genDivHtmlElement()
+    }
+    return this._remoteViewNode
+  }
+
   constructor(config: ICallConfig) {
     super()
     this.callConfig = config
-    this.rtcClient = config.rtcClient
-      ? config.rtcClient
-      : createClient({ mode: "rtc", codec: "vp9" })
+    const clock = config.clock ?? systemClock
+    this.clock = clock
+    this.logger.setClock(clock)
+    this._callInfo = new CallInfo(clock)
+    this._callMessage = new CallMessage(this.logger, clock)
+    this._callReceipt = new CallReceipt(clock)
+    this._callRecorder = new CallRecorder(clock)
+    this._callStats = new CallStats(clock)
+    this._callMessage.setSigner(config.messageSigner)
+    this._callMessage.setExpireMillisecond(config.messageExpireMillisecond)
+    this._callMessage.setExtensionConfig(config.extensionConfig)
+    this.callRecordStore =
+      config.callRecordStore ?? new CallMemoryRecordStore()
+    this._ownMediaEngine = !config.mediaEngine
+    this.mediaEngine =
+      config.mediaEngine ??
+      new CallAgoraMediaEngine({ rtcClient: config.rtcClient })
     if (typeof config.logLevel == "number") {
-      logger.setLogLevel(config.logLevel)
+      this.logger.setLogLevel(config.logLevel)
     }
+    const { sinks, bufferSize } = config.logConfig ?? {}
+    this._logBuffer = new CallMemoryLogSink({ maxEntries: bufferSize })
+    this.logger.setSinks([
+      ...(sinks ?? [new CallReportLogSink()]),
+      this._logBuffer,
+    ])
+    this.logger.setContext(() => ({
+      callId: this.getCallId(),
+      state: this.state,
+    }))
+    this._callTracer = new CallTracer(
+      config.userId,
+      config.traceConfig,
+      clock,
+    )
     this._listenRtcEvents()
+    this._listenDeviceEvents()
     this._listenMessagerManagerEvents()
     // privacy protection （Do not print sensitive information）
-    logger.debug("init success", {
+    this.logger.debug("init success", {
       userId: config.userId,
       logLevel: config.logLevel,
     })
@@ -95,7 +293,42 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
    * @param level 等级
    */
   setLogLevel(level: LogLevel) {
-    logger.setLogLevel(level)
+    this.logger.setLogLevel(level)
+  }
+
+  /**
+   * 导出最近的日志（已隐藏 token、appCertificate 等敏感信息），可以附加到工单中
+   */
+  exportLogs(): ICallLogEntry[] {
+    const keys = [
+      ...DEFAULT_LOG_REDACT_KEYS,
+      ...(this.callConfig.logConfig?.redactKeys ?? []),
+    ]
+    const values = [
+      this.callConfig.appCertificate,
+      this.prepareConfig?.rtcToken ?? "",
+      ...this._tokens,
+    ]
+    return this._logBuffer.entries().map((entry) => ({
+      ...entry,
+      message: redactLogMessage(entry.message, keys, values),
+    }))
+  }
+
+  /**
+   * 获取通话追踪（消息、呼叫事件、状态变更和 RTC 事件），通话结束后仍可获取
+   * @param callId 通话ID，默认为当前通话
+   * @returns 不存在时返回 undefined
+   */
+  getCallTrace(callId: string = this.getCallId()): ICallTrace | undefined {
+    return this._callTracer.get(callId)
+  }
+
+  /**
+   * 获取保留的所有通话追踪（最近的 traceConfig.maxCalls 个通话）
+   */
+  getCallTraces(): ICallTrace[] {
+    return this._callTracer.list()
   }
 
   /**
@@ -106,295 +339,1296 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
   }
 
   /**
-   * 准备呼叫
-   * @param prepareConfig 准备呼叫配置
+   * 获取通话时长（毫秒），从接通开始计算，未接通时为0
    */
-  async prepareForCall(prepareConfig: Partial<IPrepareConfig>) {
-    if (this.isBusy) {
-      this._callEventChange(CallEvent.stateMismatch)
-      const message = "currently busy!"
-      logger.error(message)
-      throw new Error(message)
-    }
-    this.prepareConfig = {
-      ...this.prepareConfig,
-      ...prepareConfig,
-    }
-    this._callStateChange(CallStateType.prepared, CallStateReason.none)
-    const { localView, remoteView, rtcToken, ...printConfig } =
-      this.prepareConfig
-    logger.debug(
-      "prepareForCall success",
-      JSON.stringify({
-        ...printConfig,
-        localView: serializeHTMLElement(localView),
-        remoteView: serializeHTMLElement(remoteView),
-      }),
-    )
+  getCallDuration() {
+    return this._connectedTime ? this.clock.now() - this._connectedTime : 0
   }
 
   /**
-   * 发起呼叫 （主叫）
-   * @param remoteUserId 远端用户Id
-   * @param callType 呼叫类型
+   * 获取远端用户的静音状态
+   * @param userId 远端用户ID，默认为当前通话的远端用户
    */
-  async call(remoteUserId: number, callType?: CallType) {
-    if (this.state !== CallStateType.prepared) {
-      this._callEventChange(CallEvent.stateMismatch)
-      const message = `call failed! current state:${this.state} is not prepared state ${CallStateType.prepared}`
-      logger.error(message)
-      throw new Error(message)
-    }
-    this._callInfo.start()
-    this.remoteUserId = remoteUserId
-    this.callType = callType ?? CallType.video
-    const callStateReason =
-      this.callType == CallType.video
-        ? CallStateReason.localVideoCall
-        : CallStateReason.localAudioCall
-    this._callStateChange(CallStateType.calling, callStateReason, "", {
-      remoteUserId,
-      fromUserId: this.callConfig.userId,
-    })
-    this._callEventChange(CallEvent.onCalling)
-    this._callMessage.setCallId(uuidv4())
-    const callAction =
-      this.callType == CallType.video
-        ? CallAction.VideoCall
-        : CallAction.AudioCall
-    this._autoCancelCall(true)
-    this._rtcJoinAndPublish()
-    await this._publishMessage(remoteUserId, {
-      fromUserId: this.callConfig.userId,
-      remoteUserId,
-      fromRoomId: this.prepareConfig?.roomId,
-      message_action: callAction,
-    })
-    this._callInfo.add("remoteUserRecvCall")
-    this._callEventChange(CallEvent.remoteUserRecvCall)
-    logger.debug(`call success,remoteUserId:${remoteUserId}`)
+  getRemoteMuteState(userId: number = this.remoteUserId): IMuteState {
+    return this._remoteMuteStates.get(userId) ?? { audio: false, video: false }
   }
 
   /**
-   * 取消呼叫 (主叫)
+   * 关闭麦克风（对端会收到 remoteMuteStateChanged）
    */
-  async cancelCall() {
-    this._callStateChange(CallStateType.prepared, CallStateReason.localCancel)
-    this._callEventChange(CallEvent.localCancelled)
-    await Promise.all([
-      this._publishMessage(this.remoteUserId, {
-        fromUserId: this.callConfig.userId,
-        remoteUserId: this.remoteUserId,
-        message_action: CallAction.Cancel,
-        cancelCallByInternal: RejectByInternal.External,
-      }),
-      this.destory()
-    ])
-    logger.debug(`cancelCall success`)
+  async muteAudio() {
+    await this._setLocalMuted("audio", true)
   }
 
   /**
-   * 拒绝通话 (被叫)
-   * @param remoteUserId 远端用户Id
-   * @param reason 原因
+   * 打开麦克风
    */
-  async reject(remoteUserId: number, reason?: string) {
-    this._callStateChange(
-      CallStateType.prepared,
-      CallStateReason.localRejected,
-      reason,
-    )
-    this._callEventChange(CallEvent.localRejected)
-    await Promise.all([
-      this._publishMessage(remoteUserId, {
-        fromUserId: this.callConfig.userId,
-        remoteUserId,
-        message_action: CallAction.Reject,
-        rejectReason: reason,
-        rejectByInternal: RejectByInternal.External,
-      }),
-      this.destory()
-    ])
-    logger.debug(`reject success,remoteUserId:${remoteUserId},reason:${reason}`)
+  async unmuteAudio() {
+    await this._setLocalMuted("audio", false)
   }
 
   /**
-   * 接受通话 (被叫)
-   * @param remoteUserId 远端用户Id
+   * 关闭摄像头（本地和对端显示占位元素）
    */
-  async accept(remoteUserId: number) {
-    if (this.state !== CallStateType.calling) {
-      this._callEventChange(CallEvent.stateMismatch)
-      const message = `accept fail! current state:${this.state} is not calling state ${CallStateType.calling}`
-      logger.error(message)
-      throw new Error(message)
-    }
-    this._callEventChange(CallEvent.localAccepted)
-    this._callInfo.add("acceptCall")
-    this._callStateChange(
-      CallStateType.connecting,
-      CallStateReason.localAccepted,
-    )
-    await Promise.all([
-      this._publishMessage(remoteUserId, {
-        fromUserId: this.callConfig.userId,
-        remoteUserId,
-        message_action: CallAction.Accept,
-      }),
-      this._checkAppendView()
-    ])
-    logger.debug(`accept success,remoteUserId:${remoteUserId}`)
+  async muteVideo() {
+    await this._setLocalMuted("video", true)
   }
 
   /**
-   * 挂断通话
-   * @param remoteUserId 远端用户Id
+   * 打开摄像头
    */
-  async hangup(remoteUserId: number) {
-    this._callStateChange(CallStateType.prepared, CallStateReason.localHangup)
-    this._callEventChange(CallEvent.localHangup)
-    await Promise.all([
-      this._publishMessage(remoteUserId, {
-        fromUserId: this.callConfig.userId,
-        remoteUserId,
-        message_action: CallAction.Hangup,
-      }),
-      this.destory()
-    ])
-    logger.debug(`hangup success,remoteUserId:${remoteUserId}`)
+  async unmuteVideo() {
+    await this._setLocalMuted("video", false)
   }
 
   /**
-   * 销毁
+   * 开始屏幕共享（仅支持已接通的视频通话），共享期间屏幕轨道代替摄像头轨道发布
    */
-  async destory() {
+  async startScreenShare() {
+    if (this.state != CallStateType.connected) {
+      const message = `startScreenShare failed! current state:${this.state} is not connected`
+      this.logger.error(message)
+      throw new Error(message)
+    }
+    if (this.callType != CallType.video) {
+      const message = "startScreenShare failed! only video call is supported"
+      this.logger.error(message)
+      throw new Error(message)
+    }
+    if (this.localTracks.screenTrack) {
+      return this.logger.warn("screen share has started")
+    }
     try {
-      this.remoteTracks.audioTrack?.stop()
-      if (this.localTracks?.audioTrack) {
-        this.localTracks?.audioTrack.close()
-        logger.debug("close local audio track success")
-      }
-      if (this.localTracks?.videoTrack) {
-        this.localTracks?.videoTrack.close()
-        logger.debug("close local video track success")
-      }
-      if (this._rtcJoined) {
-        await this.rtcClient?.leave()
-        logger.debug("rtc leave success")
-        this._callEventChange(CallEvent.localLeft)
+      const screenTrack = await this.mediaEngine.createScreenVideoTrack(
+        this.prepareConfig.screenConfig ?? {},
+      )
+      screenTrack.on("track-ended", async () => {
+        // user stopped sharing by the browser
+        if (this.localTracks.screenTrack !== screenTrack) {
+          return
+        }
+        this._callEventChange(CallEvent.localScreenShareEnded)
+        try {
+          await this.stopScreenShare()
+        } catch (e) {
+          // callError has been emitted in stopScreenShare
+          this.logger.warn("stop screen share fail after track ended")
+        }
+      })
+      this.localTracks.screenTrack = screenTrack
+      if (this.localTracks.videoTrack) {
+        await this.mediaEngine.unpublish(this.localTracks.videoTrack)
       }
+      await this.mediaEngine.publish(screenTrack)
     } catch (e) {
+      this.localTracks.screenTrack?.close()
+      this.localTracks.screenTrack = undefined
       this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
       throw e
     }
-    this._resetData()
-    logger.debug(`destory success`)
+    this._callEventChange(CallEvent.localScreenShareStarted)
+    await this._sendScreenShareState()
+    this.logger.debug("startScreenShare success")
   }
 
-  // ------- public -------
-
-  // ------- private -------
-  private _listenMessagerManagerEvents() {
-    this.callMessageManager.on("messageReceive", async (message) => {
-      logger.debug("message receive success:", message)
-      const data = this._callMessage.decode(message)
-      const { message_action } = data
-      switch (message_action) {
-        // receive video call
-        case CallAction.VideoCall:
-          await this._receiveVideoCall(data)
-          break
-        // receive audio call
-        case CallAction.AudioCall:
-          // TODO: audio call
-          break
-        // receive cancel
-        case CallAction.Cancel:
-          await this._receiveCancelCall(data)
-          break
-        // receive accept
-        case CallAction.Accept:
-          await this._receiveAccept(data)
-          break
-        // receive reject
-        case CallAction.Reject:
-          await this._receiveReject(data)
-          break
-        // receive hangup
-        case CallAction.Hangup:
-          await this._receiveHangup(data)
-          break
+  /**
+   * 停止屏幕共享，恢复发布摄像头轨道
+   */
+  async stopScreenShare() {
+    const screenTrack = this.localTracks.screenTrack
+    if (!screenTrack) {
+      return this.logger.warn("screen share has not started")
+    }
+    this.localTracks.screenTrack = undefined
+    try {
+      if (this._rtcJoined) {
+        await this.mediaEngine.unpublish(screenTrack)
+        if (this.localTracks.videoTrack) {
+          await this.mediaEngine.publish(this.localTracks.videoTrack)
+        }
       }
-    })
+    } catch (e) {
+      this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
+      throw e
+    } finally {
+      screenTrack.close()
+    }
+    this._callEventChange(CallEvent.localScreenShareStopped)
+    if (this.isBusy) {
+      await this._sendScreenShareState()
+    }
+    this.logger.debug("stopScreenShare success")
   }
 
-  private async _receiveCancelCall(data: ICallMessage) {
-    const { fromUserId, cancelCallByInternal } = data
-    if (!this._isCallingUser(fromUserId)) {
+  /**
+   * 请求切换呼叫类型（仅支持已接通的一对一通话）
+   *
+   * 音频升级为视频需要对端同意（对端收到 CallEvent.remoteSwitchCallTypeRequested），视频降级为音频对端自动同意
+   * @param callType 目标呼叫类型
+   */
+  async requestSwitchCallType(callType: CallType) {
+    this._assertCanSwitchCallType("requestSwitchCallType", callType)
+    if (this._localSwitchCallType !== undefined) {
+      const message = "requestSwitchCallType failed! a request is pending"
+      this.logger.error(message)
+      throw new Error(message)
+    }
+    if (this._remoteSwitchCallType === callType) {
+      // both sides request the same call type
+      await this.acceptSwitchCallType()
       return
     }
-    this._callStateChange(
-      CallStateType.prepared,
-      CallStateReason.remoteCancel,
-      "",
-      { cancelCallByInternal },
+    this._localSwitchCallType = callType
+    this._timedOutSwitchCallType = undefined
+    this._callEventChange(
+      CallEvent.localSwitchCallTypeRequested,
+      callType.toString(),
     )
-    this._callEventChange(CallEvent.remoteCancelled)
-    await this.destory()
+    const time =
+      this.prepareConfig?.callTimeoutMillisecond ||
+      DEFAULT_SWITCH_CALL_TYPE_TIMEOUT
+    this._switchCallTypeTimer = this.clock.setTimeout(async () => {
+      this._switchCallTypeTimer = null
+      if (this._localSwitchCallType === undefined) {
+        return
+      }
+      this._localSwitchCallType = undefined
+      this._timedOutSwitchCallType = { callType, time: this.clock.now() }
+      this._callEventChange(CallEvent.switchCallTypeTimeout)
+      // the remote user should not switch any more
+      try {
+        await this._publishMessage(this.remoteUserId, {
+          fromUserId: this.callConfig.userId,
+          remoteUserId: this.remoteUserId,
+          message_action: CallAction.SwitchCallTypeCancel,
+          callType,
+        })
+      } catch (e) {
+        // callError has been emitted in _publishMessage
+        return
+      }
+    }, time)
+    try {
+      await this._publishMessage(this.remoteUserId, {
+        fromUserId: this.callConfig.userId,
+        remoteUserId: this.remoteUserId,
+        message_action: CallAction.SwitchCallType,
+        callType,
+      })
+    } catch (e) {
+      // the request is not sent, allow a new request
+      this._clearLocalSwitchCallType()
+      throw e
+    }
+    this.logger.debug(`requestSwitchCallType success,callType:${callType}`)
   }
 
-  private async _receiveVideoCall(data: ICallMessage) {
-    const { callId, fromUserId, fromRoomId, remoteUserId } = data
-    if (!this._isCallingUser(fromUserId)) {
-      this._autoReject(Number(fromUserId))
-      return
+  /**
+   * 同意远端切换呼叫类型的请求
+   */
+  async acceptSwitchCallType() {
+    const callType = this._remoteSwitchCallType
+    if (callType === undefined) {
+      const message = "acceptSwitchCallType failed! no switch request"
+      this.logger.error(message)
+      throw new Error(message)
     }
-    this._callInfo.start()
-    this._callMessage.setCallId(callId)
-    this.remoteUserId = Number(fromUserId)
-    this.prepareConfig.roomId = fromRoomId
-    this._autoCancelCall(false)
-    this._callStateChange(
-      CallStateType.calling,
-      CallStateReason.remoteVideoCall,
-      "",
-      // on this eventInfo
-      // remoteUserId 指向本次通话的被叫方
-      // fromUserId 指向本次通话的主叫方
-      {
-        remoteUserId: Number(remoteUserId),
-        fromUserId: Number(fromUserId),
-      },
-    )
-    this._callEventChange(CallEvent.onCalling)
-    await this._rtcJoinAndPublish()
-    if (this.prepareConfig?.autoAccept) {
-      await this.accept(this.remoteUserId)
+    this._remoteSwitchCallType = undefined
+    try {
+      await this._publishMessage(this.remoteUserId, {
+        fromUserId: this.callConfig.userId,
+        remoteUserId: this.remoteUserId,
+        message_action: CallAction.SwitchCallTypeAccept,
+        callType,
+      })
+    } catch (e) {
+      // the remote user does not know the accept, keep the request
+      this._remoteSwitchCallType ??= callType
+      throw e
     }
+    await this._switchCallType(callType)
+    this.logger.debug(`acceptSwitchCallType success,callType:${callType}`)
   }
 
-  private async _receiveAccept(data: ICallMessage) {
-    this._callInfo.add("acceptCall")
-    this._callEventChange(CallEvent.remoteAccepted)
-    this._callStateChange(
-      CallStateType.connecting,
-      CallStateReason.remoteAccepted,
-    )
-    this._checkAppendView()
+  /**
+   * 拒绝远端切换呼叫类型的请求
+   * @param reason 原因
+   */
+  async declineSwitchCallType(reason?: string) {
+    const callType = this._remoteSwitchCallType
+    if (callType === undefined) {
+      const message = "declineSwitchCallType failed! no switch request"
+      this.logger.error(message)
+      throw new Error(message)
+    }
+    this._remoteSwitchCallType = undefined
+    await this._publishMessage(this.remoteUserId, {
+      fromUserId: this.callConfig.userId,
+      remoteUserId: this.remoteUserId,
+      message_action: CallAction.SwitchCallTypeDecline,
+      callType,
+      rejectReason: reason,
+    })
+    this.logger.debug(`declineSwitchCallType success,callType:${callType}`)
   }
 
-  private async _receiveHangup(data: ICallMessage) {
-    const { fromUserId } = data
+  /**
+   * 获取可用的媒体设备
+   */
+  async enumerateDevices(): Promise<ICallDevices> {
+    const devices = await this.mediaEngine.getDevices()
+    return {
+      cameras: devices.filter((item) => item.kind == "videoinput"),
+      microphones: devices.filter((item) => item.kind == "audioinput"),
+      speakers: devices.filter((item) => item.kind == "audiooutput"),
+    }
+  }
+
+  /**
+   * 切换摄像头（通话中立即生效，否则在下次通话时生效）
+   * @param deviceId 设备ID，或者移动端的前置（user）/后置（environment）摄像头
+   */
+  async switchCamera(deviceId: string) {
+    const isFacingMode = deviceId == "user" || deviceId == "environment"
+    try {
+      await this.localTracks.videoTrack?.setDevice(
+        isFacingMode
+          ? { facingMode: deviceId as VideoFacingMode }
+          : deviceId,
+      )
+    } catch (e) {
+      this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
+      throw e
+    }
+    this.prepareConfig.videoConfig = {
+      ...this.prepareConfig.videoConfig,
+      cameraId: isFacingMode ? undefined : deviceId,
+      facingMode: isFacingMode ? (deviceId as VideoFacingMode) : undefined,
+    }
+    this.logger.debug(`switch camera success,deviceId:${deviceId}`)
+  }
+
+  /**
+   * 切换麦克风（通话中立即生效，否则在下次通话时生效）
+   * @param deviceId 设备ID
+   */
+  async switchMicrophone(deviceId: string) {
+    try {
+      await this.localTracks.audioTrack?.setDevice(deviceId)
+    } catch (e) {
+      this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
+      throw e
+    }
+    this.prepareConfig.audioConfig = {
+      ...this.prepareConfig.audioConfig,
+      microphoneId: deviceId,
+    }
+    this.logger.debug(`switch microphone success,deviceId:${deviceId}`)
+  }
+
+  /**
+   * 切换扬声器（仅部分浏览器支持，例如 Chrome）
+   * @param deviceId 设备ID
+   */
+  async switchSpeaker(deviceId: string) {
+    this._speakerId = deviceId
+    try {
+      await Promise.all(
+        this._getRemoteAudioTracks().map((track) =>
+          track.setPlaybackDevice(deviceId),
+        ),
+      )
+    } catch (e) {
+      this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
+      throw e
+    }
+    this.logger.debug(`switch speaker success,deviceId:${deviceId}`)
+  }
+
+  /**
+   * 查询通话记录
+   * @param query 查询条件
+   */
+  async getCallRecords(query?: ICallRecordQuery) {
+    return this.callRecordStore.query(query)
+  }
+
+  /**
+   * 当前状态是否可以发起呼叫
+   */
+  canCall() {
+    return this._stateMachine.can(CallStateReason.localVideoCall)
+  }
+
+  /**
+   * 当前状态是否可以取消呼叫（主叫）
+   */
+  canCancelCall() {
+    return this._stateMachine.can(CallStateReason.localCancel)
+  }
+
+  /**
+   * 当前状态是否可以接受通话（被叫）
+   */
+  canAccept() {
+    return this._stateMachine.can(CallStateReason.localAccepted)
+  }
+
+  /**
+   * 当前状态是否可以拒绝通话（被叫）
+   */
+  canReject() {
+    return this._stateMachine.can(CallStateReason.localRejected)
+  }
+
+  /**
+   * 当前状态是否可以挂断通话
+   */
+  canHangup() {
+    return this._stateMachine.can(CallStateReason.localHangup)
+  }
+
+  /**
+   * 准备呼叫
+   * @param prepareConfig 准备呼叫配置
+   */
+  async prepareForCall(prepareConfig: Partial<IPrepareConfig>) {
+    this._assertCallState("prepareForCall", CallStateReason.none)
+    this.prepareConfig = {
+      ...this.prepareConfig,
+      ...prepareConfig,
+    }
+    this._callStateChange(CallStateReason.none)
+    this._addToken(this.prepareConfig.rtcToken)
+    const { localView, remoteView, rtcToken, ...printConfig } =
+      this.prepareConfig
+    this.logger.debug(
+      "prepareForCall success",
+      JSON.stringify({
+        ...printConfig,
+        localView: serializeHTMLElement(localView),
+        remoteView: serializeHTMLElement(remoteView),
+      }),
+    )
+  }
+
+  /**
+   * 设置本地和远端视图，通话中调用时会把正在播放的视频移动到新的视图中（例如 React 组件重新挂载）
+   * @param localView 本地视图，不传时移除本地视频
+   * @param remoteView 远端视图，不传时移除远端视频
+   */
+  setViews(localView?: HTMLElement, remoteView?: HTMLElement) {
+    this.prepareConfig = {
+      ...this.prepareConfig,
+      localView,
+      remoteView,
+    }
+    if (
+      this.state == CallStateType.connected &&
+      this.callType == CallType.video
+    ) {
+      this._attachViews()
+    }
+    this.logger.debug(
+      "setViews success",
+      JSON.stringify({
+        localView: serializeHTMLElement(localView),
+        remoteView: serializeHTMLElement(remoteView),
+      }),
+    )
+  }
+
+  /**
+   * 发起呼叫 （主叫）
+   * @param remoteUserId 远端用户Id
+   * @param callType 呼叫类型
+   * @param extension 扩展信息（被叫在 callStateChanged 的 eventInfo.extension 中获取）
+   */
+  async call(
+    remoteUserId: number,
+    callType?: CallType,
+    extension?: Record<string, any>,
+  ) {
+    const callStateReason =
+      callType == CallType.audio
+        ? CallStateReason.localAudioCall
+        : CallStateReason.localVideoCall
+    this._assertCallState("call", callStateReason)
+    this._assertExtension("call", extension)
+    const refuseCallWhenLost =
+      this.callConfig.rtmLostConfig?.refuseCallWhenLost ?? true
+    if (this._rtmLost && refuseCallWhenLost) {
+      const message = "call failed! message channel is disconnected"
+      this.logger.error(message)
+      throw new Error(message)
+    }
+    this._callInfo.start()
+    this.remoteUserId = remoteUserId
+    this.callType = callType ?? CallType.video
+    this._stateMachine.role = CallRole.caller
+    this._callStateChange(callStateReason, "", {
+      remoteUserId,
+      fromUserId: this.callConfig.userId,
+    })
+    this._callEventChange(CallEvent.onCalling)
+    this._callMessage.setCallId(uuidv4())
+    this._startCallRecord(CallDirection.outgoing)
+    const callAction =
+      this.callType == CallType.video
+        ? CallAction.VideoCall
+        : CallAction.AudioCall
+    this._autoCancelCall(true)
+    this._rtcJoinAndPublish()
+    await this._publishMessage(
+      remoteUserId,
+      {
+        fromUserId: this.callConfig.userId,
+        remoteUserId,
+        fromRoomId: this.prepareConfig?.roomId,
+        message_action: callAction,
+        extension,
+      },
+      () => {
+        this._callInfo.add("remoteUserRecvCall")
+        this._callEventChange(CallEvent.remoteUserRecvCall)
+      },
+    )
+    this.logger.debug(`call success,remoteUserId:${remoteUserId}`)
+  }
+
+  /**
+   * 发起群组呼叫 （主叫）
+   *
+   * 每个被叫独立接受或拒绝，所有其他成员都离开后通话才结束
+   * @param remoteUserIds 远端用户Id列表
+   * @param callType 呼叫类型
+   * @param extension 扩展信息（被叫在 callStateChanged 的 eventInfo.extension 中获取）
+   */
+  async groupCall(
+    remoteUserIds: number[],
+    callType?: CallType,
+    extension?: Record<string, any>,
+  ) {
+    const callStateReason =
+      callType == CallType.audio
+        ? CallStateReason.localAudioCall
+        : CallStateReason.localVideoCall
+    this._assertCallState("groupCall", callStateReason)
+    this._assertExtension("groupCall", extension)
+    const userIds = Array.from(new Set(remoteUserIds.map(Number))).filter(
+      (userId) => userId && userId != this.callConfig.userId,
+    )
+    if (!userIds.length) {
+      const message = "groupCall failed! remoteUserIds is empty"
+      this.logger.error(message)
+      throw new Error(message)
+    }
+    const refuseCallWhenLost =
+      this.callConfig.rtmLostConfig?.refuseCallWhenLost ?? true
+    if (this._rtmLost && refuseCallWhenLost) {
+      const message = "groupCall failed! message channel is disconnected"
+      this.logger.error(message)
+      throw new Error(message)
+    }
+    this._callInfo.start()
+    this.callMode = CallMode.group
+    this.callType = callType ?? CallType.video
+    this._callGroup.init(
+      this.callConfig.userId,
+      userIds.map((userId) => [userId, ParticipantState.invited]),
+    )
+    this._stateMachine.role = CallRole.caller
+    this._callStateChange(callStateReason, "", {
+      remoteUserIds: userIds,
+      fromUserId: this.callConfig.userId,
+    })
+    this._callEventChange(CallEvent.onCalling)
+    this._callMessage.setCallId(uuidv4())
+    this._startCallRecord(CallDirection.outgoing)
+    const callAction =
+      this.callType == CallType.video
+        ? CallAction.VideoCall
+        : CallAction.AudioCall
+    this._autoCancelCall(true)
+    this._rtcJoinAndPublish()
+    let received = false
+    const onReceipt = () => {
+      // only the first invitee receiving the call triggers the event
+      if (received) {
+        return
+      }
+      received = true
+      this._callInfo.add("remoteUserRecvCall")
+      this._callEventChange(CallEvent.remoteUserRecvCall)
+    }
+    const results = await Promise.allSettled(
+      userIds.map((userId) =>
+        this._publishMessage(
+          userId,
+          {
+            fromUserId: this.callConfig.userId,
+            remoteUserId: userId,
+            remoteUserIds: userIds,
+            fromRoomId: this.prepareConfig?.roomId,
+            message_action: callAction,
+            extension,
+          },
+          onReceipt,
+        ),
+      ),
+    )
+    results.forEach((result, index) => {
+      if (result.status == "rejected") {
+        // can not reach the user, treat as left
+        this._participantStateChange(userIds[index], ParticipantState.left)
+      }
+    })
+    if (results.every((result) => result.status == "rejected")) {
+      await this._checkGroupEnd(CallStateReason.messageFailed)
+      throw (results[0] as PromiseRejectedResult).reason
+    }
+    this.logger.debug(`groupCall success,remoteUserIds:${userIds}`)
+  }
+
+  /**
+   * 取消呼叫 (主叫)
+   */
+  async cancelCall() {
+    this._assertCallState("cancelCall", CallStateReason.localCancel)
+    this._callStateChange(CallStateReason.localCancel)
+    this._callEventChange(CallEvent.localCancelled)
+    const message: Partial<ICallMessage> = {
+      message_action: CallAction.Cancel,
+      cancelCallByInternal: RejectByInternal.External,
+    }
+    await Promise.all([
+      this.callMode == CallMode.group
+        ? this._broadcastMessage(message)
+        : this._publishMessage(this.remoteUserId, {
+            ...message,
+            fromUserId: this.callConfig.userId,
+            remoteUserId: this.remoteUserId,
+          }),
+      this.destory()
+    ])
+    this.logger.debug(`cancelCall success`)
+  }
+
+  /**
+   * 拒绝通话 (被叫)
+   * @param remoteUserId 远端用户Id
+   * @param reason 原因
+   * @param extension 扩展信息（主叫在 callStateChanged 的 eventInfo.extension 中获取）
+   */
+  async reject(
+    remoteUserId: number,
+    reason?: string,
+    extension?: Record<string, any>,
+  ) {
+    this._assertCallState("reject", CallStateReason.localRejected)
+    this._assertExtension("reject", extension)
+    this._callStateChange(CallStateReason.localRejected, reason)
+    this._callEventChange(CallEvent.localRejected)
+    const message: Partial<ICallMessage> = {
+      message_action: CallAction.Reject,
+      rejectReason: reason,
+      rejectByInternal: RejectByInternal.External,
+      extension,
+    }
+    await Promise.all([
+      this.callMode == CallMode.group
+        ? this._broadcastMessage(message)
+        : this._publishMessage(remoteUserId, {
+            ...message,
+            fromUserId: this.callConfig.userId,
+            remoteUserId,
+          }),
+      this.destory()
+    ])
+    this.logger.debug(`reject success,remoteUserId:${remoteUserId},reason:${reason}`)
+  }
+
+  /**
+   * 接受通话 (被叫)
+   * @param remoteUserId 远端用户Id
+   * @param extension 扩展信息（主叫在 callStateChanged 的 eventInfo.extension 中获取）
+   */
+  async accept(remoteUserId: number, extension?: Record<string, any>) {
+    this._assertCallState("accept", CallStateReason.localAccepted)
+    this._assertExtension("accept", extension)
+    this._callEventChange(CallEvent.localAccepted)
+    this._callInfo.add("acceptCall")
+    this._callStateChange(CallStateReason.localAccepted)
+    await Promise.all([
+      this.callMode == CallMode.group
+        ? this._broadcastMessage({
+            message_action: CallAction.Accept,
+            extension,
+          })
+        : this._publishMessage(remoteUserId, {
+            fromUserId: this.callConfig.userId,
+            remoteUserId,
+            message_action: CallAction.Accept,
+            extension,
+          }),
+      this._checkAppendView()
+    ])
+    this.logger.debug(`accept success,remoteUserId:${remoteUserId}`)
+  }
+
+  /**
+   * 挂断通话
+   * @param remoteUserId 远端用户Id
+   * @param extension 扩展信息（远端在 callStateChanged 的 eventInfo.extension 中获取）
+   */
+  async hangup(remoteUserId: number, extension?: Record<string, any>) {
+    this._assertCallState("hangup", CallStateReason.localHangup)
+    this._assertExtension("hangup", extension)
+    this._callStateChange(CallStateReason.localHangup)
+    this._callEventChange(CallEvent.localHangup)
+    await Promise.all([
+      this.callMode == CallMode.group
+        ? this._broadcastMessage({
+            message_action: CallAction.Hangup,
+            extension,
+          })
+        : this._publishMessage(remoteUserId, {
+            fromUserId: this.callConfig.userId,
+            remoteUserId,
+            message_action: CallAction.Hangup,
+            extension,
+          }),
+      this.destory()
+    ])
+    this.logger.debug(`hangup success,remoteUserId:${remoteUserId}`)
+  }
+
+  /**
+   * 拒绝等待中的呼叫
+   * @param reason 原因
+   */
+  async rejectWaitingCall(reason?: string) {
+    const data = this._takeWaitingCall(CallStateReason.localRejected)
+    if (!data) {
+      const message = "rejectWaitingCall failed! no waiting call"
+      this.logger.error(message)
+      throw new Error(message)
+    }
+    const remoteUserId = Number(data.fromUserId)
+    this._callEventChange(CallEvent.waitingCallRejected)
+    await this._publishMessage(remoteUserId, {
+      callId: data.callId,
+      fromUserId: this.callConfig.userId,
+      remoteUserId,
+      message_action: CallAction.Reject,
+      rejectReason: reason,
+      rejectByInternal: RejectByInternal.External,
+    })
+    this.logger.debug(
+      `rejectWaitingCall success,remoteUserId:${remoteUserId},reason:${reason}`,
+    )
+  }
+
+  /**
+   * 接听等待中的呼叫
+   * @param holdCurrent true: 保持当前通话（仅支持已接通的一对一通话），之后可调用 resumeHeldCall 恢复; false: 挂断当前通话
+   */
+  async acceptWaitingCall(holdCurrent: boolean = false) {
+    if (!this._waitingCall) {
+      const message = "acceptWaitingCall failed! no waiting call"
+      this.logger.error(message)
+      throw new Error(message)
+    }
+    if (holdCurrent) {
+      if (this.callMode !== CallMode.single) {
+        const message = "acceptWaitingCall failed! group call can not be held"
+        this.logger.error(message)
+        throw new Error(message)
+      }
+      this._assertCallState("acceptWaitingCall", CallStateReason.localHeld)
+    }
+    const data = this._takeWaitingCall()!
+    if (this.isBusy) {
+      if (holdCurrent) {
+        await this._holdCall()
+      } else {
+        await this.hangup(this.remoteUserId)
+      }
+    }
+    await this._receiveCall(data)
+    if (this.state == CallStateType.calling) {
+      await this.accept(this.remoteUserId)
+    }
+    this.logger.debug(`acceptWaitingCall success,remoteUserId:${data.fromUserId}`)
+  }
+
+  /**
+   * 恢复被保持的通话（当前通话结束后调用）
+   */
+  async resumeHeldCall() {
+    const heldCall = this._heldCall
+    if (!heldCall) {
+      const message = "resumeHeldCall failed! no held call"
+      this.logger.error(message)
+      throw new Error(message)
+    }
+    this._assertCallState("resumeHeldCall", CallStateReason.localResumed)
+    this._heldCall = undefined
+    const { callId, remoteUserId, roomId, callType, role, connectedTime } =
+      heldCall
+    this._callInfo.start()
+    this._callMessage.setCallId(callId)
+    this.remoteUserId = remoteUserId
+    this.prepareConfig.roomId = roomId
+    this.callType = callType
+    this._stateMachine.role = role
+    this._connectedTime = connectedTime
+    this._callRecorder.resume(callId)
+    this._callStateChange(CallStateReason.localResumed)
+    await Promise.all([
+      this._publishMessage(remoteUserId, {
+        fromUserId: this.callConfig.userId,
+        remoteUserId,
+        message_action: CallAction.Resume,
+      }),
+      this._rtcJoinAndPublish(),
+    ])
+    this._checkAppendView()
+    this.logger.debug(`resumeHeldCall success,remoteUserId:${remoteUserId}`)
+  }
+
+  /**
+   * 销毁
+   */
+  async destory() {
+    try {
+      this.remoteTracks.audioTrack?.stop()
+      this._callGroup.list().forEach(({ tracks }) => tracks.audioTrack?.stop())
+      if (this.localTracks?.audioTrack) {
+        this.localTracks?.audioTrack.close()
+        this.logger.debug("close local audio track success")
+      }
+      if (this.localTracks?.videoTrack) {
+        this.localTracks?.videoTrack.close()
+        this.logger.debug("close local video track success")
+      }
+      if (this.localTracks?.screenTrack) {
+        this.localTracks?.screenTrack.close()
+        this.logger.debug("close local screen track success")
+      }
+      if (this._rtcJoined) {
+        await this.mediaEngine.leave()
+        this.logger.debug("rtc leave success")
+        this._callEventChange(CallEvent.localLeft)
+      }
+    } catch (e) {
+      this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
+      throw e
+    }
+    this._resetData()
+    this.logger.debug(`destory success`)
+  }
+
+  /**
+   * 获取 rtc client 实例（仅使用 CallAgoraMediaEngine 时存在，等待 sdk 加载完成）
+   */
+  async getRtcClient(): Promise<IAgoraRTCClient | undefined> {
+    return this.mediaEngine instanceof CallAgoraMediaEngine
+      ? this.mediaEngine.getClient()
+      : undefined
+  }
+
+  /**
+   * 释放：销毁当前通话，移除 CallApi 在消息管理器和媒体引擎上的事件监听以及 CallApi 的所有事件监听，释放后不能再使用
+   * 只释放 CallApi 创建的媒体引擎，不会释放传入的 callMessageManager 和 mediaEngine（可能被其他实例共享）
+   */
+  async release() {
+    try {
+      await this.destory()
+    } finally {
+      this._takeWaitingCall()
+      if (this._rtmLostTimer) {
+        this.clock.clearTimeout(this._rtmLostTimer)
+        this._rtmLostTimer = null
+      }
+      this._listenerRemovers.forEach((remove) => remove())
+      this._listenerRemovers = []
+      if (this._ownMediaEngine) {
+        this.mediaEngine.release()
+      }
+      this.removeAllEventListeners()
+      this.logger.debug(`release success`)
+    }
+  }
+
+  // ------- public -------
+
+  // ------- private -------
+  private _listenMessagerManagerEvents() {
+    const listen = <Key extends keyof CallMessageManagerEvents>(
+      evt: Key,
+      cb: CallMessageManagerEvents[Key],
+    ) => {
+      this.callMessageManager.on(evt, cb)
+      this._listenerRemovers.push(() =>
+        this.callMessageManager.off(evt, cb),
+      )
+    }
+    listen("disconnected", (channelName) => {
+      this.logger.warn(`message channel disconnected, channelName:${channelName}`)
+      this._handleRtmLost()
+    })
+    listen("connected", (channelName) => {
+      this.logger.debug(`message channel connected, channelName:${channelName}`)
+      this._handleRtmReconnected()
+    })
+    listen("tokenWillExpire", async (channelName) => {
+      this.logger.debug(`message token will expire, channelName:${channelName}`)
+      await this._renewMessageToken(channelName)
+    })
+    listen("messageReceive", async (message) => {
+      this.logger.debug(
+        "message receive success:",
+        this._callMessage.redact(message),
+      )
+      let data: ICallMessage
+      try {
+        data = await this._callMessage.decode(message)
+      } catch (e: any) {
+        // drop the message, the sender will get missingReceipts
+        this._callError(
+          e?.code == CallMessageErrorCode.invalidSignature
+            ? CallErrorEvent.verifyMessageFail
+            : CallErrorEvent.receiveInvalidMessage,
+          CallErrorCodeType.message,
+          e,
+        )
+        if (e?.code == CallMessageErrorCode.unsupportedVersion) {
+          await this._rejectUnsupportedCall(message)
+        }
+        return
+      }
+      this._traceMessage(
+        CallTraceType.messageReceived,
+        data.fromUserId,
+        message,
+      )
+      const { message_action, messageId } = data
+      if (message_action == CallAction.Ack) {
+        this._receiveAck(data)
+        return
+      }
+      if (messageId) {
+        // the sender supports receipts
+        this._receiptUsers.add(Number(data.fromUserId))
+        this._sendAck(data)
+        if (this._callReceipt.receive(messageId)) {
+          // retransmitted message, already handled
+          this.logger.debug(`message duplicate, messageId:${messageId}`)
+          return
+        }
+      }
+      if (!this._callMessage.isKnownAction(message_action)) {
+        // sent by a newer version with the same major version
+        this.logger.warn(`message_action:${message_action} is unknown, ignored`)
+        return
+      }
+      if (!this._isKnownCallId(data)) {
+        // e.g. retransmitted message of an ended call, or a forged message
+        this.logger.warn(
+          `message callId:${data.callId} is not the current call, ignored`,
+        )
+        return
+      }
+      switch (message_action) {
+        // receive video call / audio call
+        case CallAction.VideoCall:
+        case CallAction.AudioCall:
+          await this._receiveCall(data)
+          break
+        // receive cancel
+        case CallAction.Cancel:
+          await this._receiveCancelCall(data)
+          break
+        // receive accept
+        case CallAction.Accept:
+          await this._receiveAccept(data)
+          break
+        // receive reject
+        case CallAction.Reject:
+          await this._receiveReject(data)
+          break
+        // receive hangup
+        case CallAction.Hangup:
+          await this._receiveHangup(data)
+          break
+        // receive hold
+        case CallAction.Hold:
+          this._receiveHold(data)
+          break
+        // receive resume
+        case CallAction.Resume:
+          this._receiveResume(data)
+          break
+        case CallAction.MuteState:
+          this._receiveMuteState(data)
+          break
+        case CallAction.ScreenShare:
+          this._receiveScreenShare(data)
+          break
+        case CallAction.SwitchCallType:
+          await this._receiveSwitchCallType(data)
+          break
+        case CallAction.SwitchCallTypeAccept:
+          await this._receiveSwitchCallTypeAccept(data)
+          break
+        case CallAction.SwitchCallTypeDecline:
+          this._receiveSwitchCallTypeDecline(data)
+          break
+        case CallAction.SwitchCallTypeCancel:
+          this._receiveSwitchCallTypeCancel(data)
+          break
+      }
+    })
+  }
+
+  /**
+   * 消息是否属于当前通话、等待中的呼叫或被保持的通话（新的呼叫除外）
+   */
+  private _isKnownCallId(data: ICallMessage) {
+    const { callId, message_action } = data
+    if (
+      message_action == CallAction.VideoCall ||
+      message_action == CallAction.AudioCall
+    ) {
+      return true
+    }
+    return (
+      callId == this.getCallId() ||
+      callId == this._waitingCall?.callId ||
+      callId == this._heldCall?.callId
+    )
+  }
+
+  private _receiveAck(data: ICallMessage) {
+    const { ackMessageId, fromUserId } = data
+    this._receiptUsers.add(Number(fromUserId))
+    if (ackMessageId) {
+      this._callReceipt.ack(ackMessageId)
+    }
+  }
+
+  private async _sendAck(data: ICallMessage) {
+    const { callId, fromUserId, messageId } = data
+    try {
+      // ack is sent only once, the sender will retransmit if it is lost
+      const encodeMessage = await this._callMessage.encode({
+        callId,
+        fromUserId: this.callConfig.userId,
+        remoteUserId: Number(fromUserId),
+        message_action: CallAction.Ack,
+        ackMessageId: messageId,
+      })
+      await this.callMessageManager.sendMessage(
+        fromUserId.toString(),
+        encodeMessage,
+      )
+      this._traceMessage(CallTraceType.messageSent, fromUserId, encodeMessage)
+    } catch (e: any) {
+      this.logger.warn(`send ack fail, messageId:${messageId}`, e?.message)
+    }
+  }
+
+  /**
+   * 不支持的协议版本的呼叫回复拒绝（rejectReason 中带上支持的版本），避免对端一直等待到呼叫超时
+   * 配置了 messageSigner 时不回复：无法校验其他版本消息的签名，伪造的消息会让本端为任意 callId 签名
+   */
+  private async _rejectUnsupportedCall(message: string) {
+    if (this.callConfig.messageSigner) {
+      return
+    }
+    const { callId, fromUserId, message_action, message_version } =
+      JSON.parse(message)
+    const remoteUserId = Number(fromUserId)
+    if (
+      (message_action != CallAction.VideoCall &&
+        message_action != CallAction.AudioCall) ||
+      typeof callId != "string" ||
+      !callId ||
+      !Number.isInteger(remoteUserId) ||
+      remoteUserId <= 0
+    ) {
+      return
+    }
+    try {
+      await this._publishMessage(remoteUserId, {
+        callId,
+        fromUserId: this.callConfig.userId,
+        remoteUserId,
+        message_action: CallAction.Reject,
+        rejectReason: `message_version:${message_version} is not supported, supported version:${CALL_MESSAGE_VERSION}`,
+        rejectByInternal: RejectByInternal.Internal,
+      })
+    } catch (e) {
+      // callError has been emitted in _publishMessage
+      return
+    }
+    this.logger.debug(`reject unsupported call,remoteUserId:${remoteUserId}`)
+  }
+
+  private _handleRtmLost() {
+    if (this._rtmLost) {
+      return
+    }
+    this._rtmLost = true
+    this._callEventChange(CallEvent.rtmLost)
+    const time =
+      this.callConfig.rtmLostConfig?.lostTimeoutMillisecond ??
+      DEFAULT_RTM_LOST_TIMEOUT
+    if (time) {
+      this._rtmLostTimer = this.clock.setTimeout(() => {
+        this._rtmLostTimer = null
+        this._applyRtmLostPolicy()
+      }, time)
+    } else {
+      this._applyRtmLostPolicy()
+    }
+  }
+
+  private _handleRtmReconnected() {
+    if (!this._rtmLost) {
+      return
+    }
+    this._rtmLost = false
+    if (this._rtmLostTimer) {
+      this.clock.clearTimeout(this._rtmLostTimer)
+      this._rtmLostTimer = null
+    }
+    this._callEventChange(CallEvent.rtmReconnected)
+  }
+
+  /**
+   * 消息通道断连期间媒体状态变化时（例如RTC断开、远端离开），重新执行处理策略
+   * keepWhileMediaFlowing 策略下保持的通话在媒体停止后结束
+   */
+  private _recheckRtmLostPolicy() {
+    if (this._rtmLost && !this._rtmLostTimer) {
+      this._applyRtmLostPolicy()
+    }
+  }
+
+  /**
+   * 消息通道断连后按 rtmLostConfig.policy 处理当前通话
+   * calling/connecting 状态依赖消息通道完成呼叫流程，总是结束通话
+   */
+  private async _applyRtmLostPolicy() {
+    if (!this.isBusy) {
+      return
+    }
+    const policy =
+      this.callConfig.rtmLostConfig?.policy ?? RtmLostPolicy.endCall
+    if (
+      policy == RtmLostPolicy.keepWhileMediaFlowing &&
+      this.state == CallStateType.connected &&
+      this._isMediaFlowing()
+    ) {
+      this.logger.debug("message channel lost, keep call while media flowing")
+      return
+    }
+    this._callStateChange(CallStateReason.rtmLost)
+    try {
+      await this.destory()
+    } catch (e: any) {
+      // called without await, callError has been emitted in destory
+      this.logger.warn(`destory fail after message channel lost`, e?.message)
+    }
+  }
+
+  private _isMediaFlowing() {
+    if (this.mediaEngine.connectionState !== "CONNECTED") {
+      return false
+    }
+    return !!this.mediaEngine.remoteUsers.find((user) =>
+      this._isRemoteRtcUser(user.uid),
+    )
+  }
+
+  private async _receiveCancelCall(data: ICallMessage) {
+    const { fromUserId, cancelCallByInternal } = data
+    if (this._isWaitingCall(data)) {
+      this._takeWaitingCall(CallStateReason.remoteCancel)
+      this._callEventChange(CallEvent.waitingCallCancelled)
+      return
+    }
+    if (!this._isCallingUser(fromUserId)) {
+      return
+    }
+    if (
+      this.callMode == CallMode.group &&
+      this._callGroup.callerId != Number(fromUserId)
+    ) {
+      // other participant cancel (e.g. calling timeout), only the caller can cancel the whole call
+      this._participantStateChange(fromUserId, ParticipantState.left)
+      await this._checkGroupEnd(CallStateReason.remoteCancel)
+      return
+    }
+    if (
+      !this._callStateChange(CallStateReason.remoteCancel, "", {
+        cancelCallByInternal,
+      })
+    ) {
+      return
+    }
+    this._callEventChange(CallEvent.remoteCancelled)
+    await this.destory()
+  }
+
+  private async _receiveCall(data: ICallMessage) {
+    const {
+      callId,
+      fromUserId,
+      fromRoomId,
+      remoteUserId,
+      remoteUserIds,
+      message_action,
+      extension,
+    } = data
+    if (!this._isCallingUser(fromUserId)) {
+      if (this.prepareConfig?.callWaitingEnabled && !this._waitingCall) {
+        this._addWaitingCall(data)
+      } else {
+        this._saveCallRecord(
+          this._callRecorder.finish(
+            this._genIncomingCallRecord(data),
+            CallStateReason.none,
+            CallOutcome.busy,
+          ),
+        )
+        this._autoReject(callId, Number(fromUserId))
+      }
+      return
+    }
+    const callType =
+      message_action == CallAction.AudioCall ? CallType.audio : CallType.video
+    const callStateReason =
+      callType == CallType.video
+        ? CallStateReason.remoteVideoCall
+        : CallStateReason.remoteAudioCall
+    if (!this._checkCallState(callStateReason)) {
+      return
+    }
+    this._callInfo.start()
+    this._callMessage.setCallId(callId)
+    this.remoteUserId = Number(fromUserId)
+    this._stateMachine.role = CallRole.callee
+    if (remoteUserIds?.length) {
+      // group call, the caller is already in the channel
+      this.callMode = CallMode.group
+      this._callGroup.init(Number(fromUserId), [
+        [Number(fromUserId), ParticipantState.accepted],
+        ...remoteUserIds
+          .map(Number)
+          .filter((userId) => userId != this.callConfig.userId)
+          .map((userId): [number, ParticipantState] => [
+            userId,
+            ParticipantState.invited,
+          ]),
+      ])
+    }
+    this.prepareConfig.roomId = fromRoomId
+    this.callType = callType
+    this._startCallRecord(CallDirection.incoming)
+    this._autoCancelCall(false)
+    this._callStateChange(
+      callStateReason,
+      "",
+      // on this eventInfo
+      // remoteUserId 指向本次通话的被叫方
+      // fromUserId 指向本次通话的主叫方
+      {
+        remoteUserId: Number(remoteUserId),
+        fromUserId: Number(fromUserId),
+        remoteUserIds,
+        extension,
+      },
+    )
+    this._callEventChange(CallEvent.onCalling)
+    await this._rtcJoinAndPublish()
+    if (this.prepareConfig?.autoAccept) {
+      await this.accept(this.remoteUserId)
+    }
+  }
+
+  private async _receiveAccept(data: ICallMessage) {
+    if (this.callMode == CallMode.group) {
+      const { fromUserId } = data
+      if (!this._isCallingUser(fromUserId)) {
+        return
+      }
+      this._participantStateChange(fromUserId, ParticipantState.accepted)
+      if (this._callGroup.get(fromUserId)?.inChannel) {
+        this._participantStateChange(fromUserId, ParticipantState.joined)
+      }
+      // only the caller changes to connecting when someone accepts
+      if (
+        this._callGroup.callerId != this.callConfig.userId ||
+        this.state != CallStateType.calling
+      ) {
+        return
+      }
+    }
+    if (!this._checkCallState(CallStateReason.remoteAccepted)) {
+      return
+    }
+    this._callInfo.add("acceptCall")
+    this._callEventChange(CallEvent.remoteAccepted)
+    this._callStateChange(CallStateReason.remoteAccepted, "", {
+      fromUserId: Number(data.fromUserId),
+      extension: data.extension,
+    })
+    this._checkAppendView()
+  }
+
+  private async _receiveHangup(data: ICallMessage) {
+    const { fromUserId, callId, extension, hangupReason } = data
+    if (
+      this._heldCall?.callId == callId &&
+      this._heldCall.remoteUserId == Number(fromUserId)
+    ) {
+      this._heldCall = undefined
+      this._saveCallRecord(
+        this._callRecorder.endHeld(callId, CallStateReason.remoteHangup),
+      )
+      this._callEventChange(CallEvent.heldCallHangup)
+      return
+    }
     if (!this._isCallingUser(fromUserId)) {
       return
     }
-    this._callStateChange(CallStateType.prepared, CallStateReason.remoteHangup)
-    this._callEventChange(CallEvent.remoteHangup)
+    // the remote user hangup because of the max call duration
+    const stateReason =
+      hangupReason == CallStateReason.maxDurationReached &&
+      this._stateMachine.can(CallStateReason.maxDurationReached)
+        ? CallStateReason.maxDurationReached
+        : CallStateReason.remoteHangup
+    if (this.callMode == CallMode.group) {
+      this._participantStateChange(fromUserId, ParticipantState.left)
+      await this._checkGroupEnd(stateReason, { extension })
+      return
+    }
+    if (!this._callStateChange(stateReason, "", { extension })) {
+      return
+    }
+    this._callEventChange(
+      stateReason == CallStateReason.maxDurationReached
+        ? CallEvent.callDurationLimitReached
+        : CallEvent.remoteHangup,
+    )
     await this.destory()
   }
 
   private async _receiveReject(data: ICallMessage) {
-    const { fromUserId, rejectByInternal, rejectReason } = data
+    const { fromUserId, rejectByInternal, rejectReason, extension } = data
     if (!this._isCallingUser(fromUserId)) {
       return
     }
@@ -402,18 +1636,416 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
       rejectByInternal == RejectByInternal.Internal
         ? CallStateReason.remoteCallBusy
         : CallStateReason.remoteRejected
+    if (this.callMode == CallMode.group) {
+      this._participantStateChange(fromUserId, ParticipantState.rejected)
+      await this._checkGroupEnd(stateReason, { rejectReason, extension })
+      return
+    }
+    if (!this._checkCallState(stateReason)) {
+      return
+    }
     if (stateReason == CallStateReason.remoteCallBusy) {
       this._callEventChange(CallEvent.remoteCallBusy)
     }
     // this._receiveReject = true
     await this.destory()
-    this._callStateChange(CallStateType.prepared, stateReason, "", {
+    this._callStateChange(stateReason, "", {
       rejectReason,
+      extension,
     })
     this._callEventChange(CallEvent.remoteRejected)
   }
 
+  private _receiveHold(data: ICallMessage) {
+    const { fromUserId } = data
+    if (
+      !this._isCallingUser(fromUserId) ||
+      this.state !== CallStateType.connected
+    ) {
+      return
+    }
+    // the remote user will leave rtc channel, keep the call
+    this._remoteHeld = true
+    this._callEventChange(CallEvent.remoteHeld)
+  }
+
+  private _receiveResume(data: ICallMessage) {
+    const { fromUserId } = data
+    if (!this._isCallingUser(fromUserId) || !this._remoteHeld) {
+      return
+    }
+    this._remoteHeld = false
+    this._callEventChange(CallEvent.remoteResumed)
+  }
+
+  private _receiveMuteState(data: ICallMessage) {
+    const { fromUserId, audioMuted, videoMuted } = data
+    if (!this._isCallingUser(fromUserId)) {
+      return
+    }
+    const userId = Number(fromUserId)
+    const muteState = { audio: !!audioMuted, video: !!videoMuted }
+    this._remoteMuteStates.set(userId, muteState)
+    this._syncVideoPlaceholder(userId)
+    this.logger.debug(`remote mute state changed,uid:${userId}`, muteState)
+    this.emit("remoteMuteStateChanged", userId, muteState)
+  }
+
+  private _receiveScreenShare(data: ICallMessage) {
+    const { fromUserId, screenSharing } = data
+    if (!this._isCallingUser(fromUserId)) {
+      return
+    }
+    const userId = Number(fromUserId)
+    if (this._remoteScreenSharing.has(userId) == !!screenSharing) {
+      return
+    }
+    if (screenSharing) {
+      this._remoteScreenSharing.add(userId)
+    } else {
+      this._remoteScreenSharing.delete(userId)
+    }
+    // replay with the fit mode of screen share
+    this._replayRemoteVideo(userId)
+    this._syncVideoPlaceholder(userId)
+    this._callEventChange(
+      screenSharing
+        ? CallEvent.remoteScreenShareStarted
+        : CallEvent.remoteScreenShareStopped,
+      userId.toString(),
+    )
+  }
+
+  private async _receiveSwitchCallType(data: ICallMessage) {
+    const { fromUserId, callType } = data
+    if (
+      !this._isCallingUser(fromUserId) ||
+      this.state != CallStateType.connected ||
+      this.callMode != CallMode.single ||
+      callType === undefined ||
+      callType == this.callType
+    ) {
+      return
+    }
+    this._remoteSwitchCallType = callType
+    if (callType == CallType.audio || this._localSwitchCallType === callType) {
+      // downgrade or both sides request the same call type, accept directly
+      await this.acceptSwitchCallType()
+      return
+    }
+    this._callEventChange(
+      CallEvent.remoteSwitchCallTypeRequested,
+      callType.toString(),
+    )
+  }
+
+  private async _receiveSwitchCallTypeAccept(data: ICallMessage) {
+    const { fromUserId, callType } = data
+    const pending = this._localSwitchCallType === callType
+    // the accept crosses with the cancel after a recent timeout, the remote user has switched
+    const timedOut = this._timedOutSwitchCallType
+    const late =
+      this._localSwitchCallType === undefined &&
+      timedOut !== undefined &&
+      timedOut.callType === callType &&
+      this.clock.now() - timedOut.time <= SWITCH_CALL_TYPE_LATE_ACCEPT_WINDOW &&
+      this.state == CallStateType.connected &&
+      this.callMode == CallMode.single &&
+      this.callType !== callType
+    if (
+      !this._isCallingUser(fromUserId) ||
+      callType === undefined ||
+      (!pending && !late)
+    ) {
+      return
+    }
+    this._clearLocalSwitchCallType()
+    this._callEventChange(CallEvent.switchCallTypeAccepted)
+    await this._switchCallType(callType)
+  }
+
+  private _receiveSwitchCallTypeDecline(data: ICallMessage) {
+    const { fromUserId, callType, rejectReason } = data
+    if (
+      !this._isCallingUser(fromUserId) ||
+      this._localSwitchCallType !== callType
+    ) {
+      return
+    }
+    this._clearLocalSwitchCallType()
+    this._callEventChange(CallEvent.switchCallTypeDeclined, rejectReason)
+  }
+
+  private _receiveSwitchCallTypeCancel(data: ICallMessage) {
+    const { fromUserId, callType } = data
+    if (
+      !this._isCallingUser(fromUserId) ||
+      callType === undefined ||
+      this._remoteSwitchCallType !== callType
+    ) {
+      return
+    }
+    this._remoteSwitchCallType = undefined
+    this._callEventChange(CallEvent.remoteSwitchCallTypeCancelled)
+  }
+
+  private _assertCanSwitchCallType(method: string, callType: CallType) {
+    let message = ""
+    if (this.state != CallStateType.connected) {
+      message = `${method} failed! current state:${this.state} is not connected`
+    } else if (this.callMode != CallMode.single) {
+      message = `${method} failed! group call is not supported`
+    } else if (this.callType == callType) {
+      message = `${method} failed! callType is already ${callType}`
+    }
+    if (message) {
+      this.logger.error(message)
+      throw new Error(message)
+    }
+  }
+
+  private _clearLocalSwitchCallType() {
+    this._localSwitchCallType = undefined
+    this._timedOutSwitchCallType = undefined
+    if (this._switchCallTypeTimer) {
+      this.clock.clearTimeout(this._switchCallTypeTimer)
+      this._switchCallTypeTimer = null
+    }
+  }
+
+  /**
+   * 切换呼叫类型：升级时创建并发布摄像头轨道，降级时关闭摄像头和屏幕共享轨道
+   */
+  private async _switchCallType(callType: CallType) {
+    if (this.callType == callType) {
+      return
+    }
+    try {
+      if (callType == CallType.video) {
+        const { videoConfig, localView, remoteView } = this.prepareConfig
+        const videoTrack =
+          await this.mediaEngine.createCameraVideoTrack(videoConfig)
+        if (this.localMuteState.video) {
+          await videoTrack.setMuted(true)
+        }
+        this.localTracks.videoTrack = videoTrack
+        this.callType = callType
+        await this.mediaEngine.publish(videoTrack)
+        localView?.appendChild(this._localViewElement)
+        remoteView?.appendChild(this._remoteViewElement)
+        this._playLocalVideo()
+        this._palyRemoteVideo()
+      } else {
+        if (this.localTracks.screenTrack) {
+          await this.stopScreenShare()
+        }
+        const videoTrack = this.localTracks.videoTrack
+        this.localTracks.videoTrack = undefined
+        this.callType = callType
+        if (videoTrack) {
+          await this.mediaEngine.unpublish(videoTrack)
+          videoTrack.close()
+        }
+        this.remoteTracks.videoTrack?.stop()
+        this._placeholders.forEach((placeholder) => placeholder.remove())
+        this._placeholders.clear()
+        this._resetView()
+      }
+    } catch (e) {
+      this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
+      throw e
+    }
+    this._callEventChange(CallEvent.callTypeChanged, callType.toString())
+    this.logger.debug(`callType changed to ${callType}`)
+  }
+
+  private async _sendScreenShareState() {
+    const message: Partial<ICallMessage> = {
+      message_action: CallAction.ScreenShare,
+      screenSharing: !!this.localTracks.screenTrack,
+    }
+    if (this.callMode == CallMode.group) {
+      await this._broadcastMessage(message)
+      return
+    }
+    await this._publishMessage(this.remoteUserId, {
+      ...message,
+      fromUserId: this.callConfig.userId,
+      remoteUserId: this.remoteUserId,
+    })
+  }
+
+  private async _setLocalMuted(kind: keyof IMuteState, muted: boolean) {
+    if (this.localMuteState[kind] == muted) {
+      return
+    }
+    this.localMuteState = { ...this.localMuteState, [kind]: muted }
+    const track =
+      kind == "audio" ? this.localTracks.audioTrack : this.localTracks.videoTrack
+    await track?.setMuted(muted)
+    if (kind == "video") {
+      this._syncVideoPlaceholder(this.callConfig.userId)
+    }
+    this.logger.debug(`local ${kind} muted:${muted}`)
+    if (this.isBusy) {
+      await this._sendMuteState()
+    }
+  }
+
+  private async _sendMuteState() {
+    const message: Partial<ICallMessage> = {
+      message_action: CallAction.MuteState,
+      audioMuted: this.localMuteState.audio,
+      videoMuted: this.localMuteState.video,
+    }
+    if (this.callMode == CallMode.group) {
+      await this._broadcastMessage(message)
+      return
+    }
+    await this._publishMessage(this.remoteUserId, {
+      ...message,
+      fromUserId: this.callConfig.userId,
+      remoteUserId: this.remoteUserId,
+    })
+  }
+
+  /**
+   * 视频关闭时在视图上显示占位元素，打开时移除
+   */
+  private _syncVideoPlaceholder(userId: number) {
+    if (this.callType != CallType.video) {
+      return
+    }
+    const isLocal = userId == this.callConfig.userId
+    // the camera is not published while the remote user is sharing screen
+    const muted = isLocal
+      ? this.localMuteState.video
+      : this.getRemoteMuteState(userId).video &&
+        !this._remoteScreenSharing.has(userId)
+    let placeholder = this._placeholders.get(userId)
+    if (!muted) {
+      placeholder?.remove()
+      this._placeholders.delete(userId)
+      return
+    }
+    if (!placeholder) {
+      placeholder =
+        this.prepareConfig.videoPlaceholder?.(userId) ?? genPlaceholderElement()
+      this._placeholders.set(userId, placeholder)
+    }
+    const container = isLocal
+      ? this._localViewElement
+      : this.callMode == CallMode.group
+        ? this._callGroup.getView(userId)
+        : this._remoteViewElement
+    if (placeholder.parentElement !== container) {
+      container.appendChild(placeholder)
+    }
+  }
+
+  private _addWaitingCall(data: ICallMessage) {
+    const fromUserId = Number(data.fromUserId)
+    this._waitingCall = data
+    this._waitingCallRecord = this._genIncomingCallRecord(data)
+    const time = this.prepareConfig?.callTimeoutMillisecond
+    if (time) {
+      this._waitingCallTimer = this.clock.setTimeout(async () => {
+        this._waitingCallTimer = null
+        const waitingCall = this._takeWaitingCall(
+          CallStateReason.callingTimeout,
+        )
+        if (!waitingCall) {
+          return
+        }
+        this._callEventChange(CallEvent.waitingCallTimeout)
+        // the waiting call is not answered, reject it as the callee
+        try {
+          await this._publishMessage(fromUserId, {
+            callId: waitingCall.callId,
+            fromUserId: this.callConfig.userId,
+            remoteUserId: fromUserId,
+            message_action: CallAction.Reject,
+            rejectReason: "no answer",
+            rejectByInternal: RejectByInternal.Internal,
+          })
+        } catch (e) {
+          // callError has been emitted in _publishMessage
+          return
+        }
+        this.logger.debug(`waiting call timeout,remoteUserId:${fromUserId}`)
+      }, time)
+    }
+    this.logger.debug(`call waiting,remoteUserId:${fromUserId}`)
+    this.emit("callWaiting", fromUserId, {
+      callId: data.callId,
+      remoteUserId: Number(data.remoteUserId),
+      fromUserId,
+      callType:
+        data.message_action == CallAction.AudioCall
+          ? CallType.audio
+          : CallType.video,
+      extension: data.extension,
+    })
+  }
+
+  /**
+   * 取出等待中的呼叫
+   * @param reason 等待中的呼叫结束的原因，不传时不生成通话记录（例如接听）
+   */
+  private _takeWaitingCall(reason?: CallStateReason) {
+    const data = this._waitingCall
+    const record = this._waitingCallRecord
+    this._waitingCall = undefined
+    this._waitingCallRecord = undefined
+    if (record && reason !== undefined) {
+      this._saveCallRecord(this._callRecorder.finish(record, reason))
+    }
+    if (this._waitingCallTimer) {
+      this.clock.clearTimeout(this._waitingCallTimer)
+      this._waitingCallTimer = null
+    }
+    return data
+  }
+
+  private _isWaitingCall(data: ICallMessage) {
+    return (
+      !!this._waitingCall &&
+      this._waitingCall.callId == data.callId &&
+      Number(this._waitingCall.fromUserId) == Number(data.fromUserId)
+    )
+  }
+
+  /**
+   * 保持当前通话：通知远端后离开RTC频道，保留通话信息用于恢复
+   */
+  private async _holdCall() {
+    const remoteUserId = this.remoteUserId
+    this._heldCall = {
+      callId: this.getCallId(),
+      remoteUserId,
+      roomId: this.roomId,
+      callType: this.callType,
+      role: this.role,
+      connectedTime: this._connectedTime,
+    }
+    this._callRecorder.hold()
+    this._callStateChange(CallStateReason.localHeld)
+    this._callEventChange(CallEvent.localHeld)
+    await Promise.all([
+      this._publishMessage(remoteUserId, {
+        fromUserId: this.callConfig.userId,
+        remoteUserId,
+        message_action: CallAction.Hold,
+      }),
+      this.destory(),
+    ])
+    this.logger.debug(`hold call success,remoteUserId:${remoteUserId}`)
+  }
+
   private _isCallingUser = (userId: string | number) => {
+    if (this.callMode == CallMode.group) {
+      return this._callGroup.has(userId)
+    }
     if (!this.remoteUserId) {
       return true
     }
@@ -425,6 +2057,7 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
    * 当前状态不为connecting 不可 append
    * prepareConfig.firstFrameWaittingDisabled true 不等待首帧可append
    * prepareConfig.firstFrameWaittingDisabled false 需要等待首帧才要append
+   * 音频呼叫等待的是音频首帧，且不需要 localView/remoteView
    */
   private _checkAppendView() {
     if (this.state !== CallStateType.connecting) {
@@ -434,27 +2067,35 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
       this.prepareConfig?.firstFrameWaittingDisabled ||
       this._receiveRemoteFirstFrameDecoded
     ) {
-      this._callStateChange(
-        CallStateType.connected,
-        CallStateReason.recvRemoteFirstFrame,
-      )
+      this._callStateChange(CallStateReason.recvRemoteFirstFrame)
+      if (this.callType == CallType.audio) {
+        // audio call only play remote audio
+        this._playRemoteAudio()
+        return
+      }
       const { localView, remoteView } = this.prepareConfig
       // set local video view to localView
       if (localView) {
-        localView.appendChild(LOCAL_VIEW_ELEMENT)
+        localView.appendChild(this._localViewElement)
         this._playLocalVideo()
       } else {
         const msg = "localView is undefined"
-        logger.error(msg)
+        this.logger.error(msg)
         throw new Error(msg)
       }
       // set remote video view to remoteView
       if (remoteView) {
-        remoteView.appendChild(REMOTE_VIEW_ELEMENT)
-        this._palyRemoteVideo()
+        if (this.callMode == CallMode.group) {
+          this._callGroup
+            .list()
+            .forEach((participant) => this._playParticipantVideo(participant))
+        } else {
+          remoteView.appendChild(this._remoteViewElement)
+          this._palyRemoteVideo()
+        }
       } else {
         const msg = "remoteView is undefined"
-        logger.error(msg)
+        this.logger.error(msg)
         throw new Error(msg)
       }
       // play remote audio
@@ -480,85 +2121,367 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
     const videoTrack = this.localTracks.videoTrack
     if (!videoTrack) {
       const msg = "local video track is undefined"
-      return logger.debug(msg)
+      return this.logger.debug(msg)
     }
     if (videoTrack.isPlaying) {
-      return logger.debug("local video track is playing")
+      return this.logger.debug("local video track is playing")
     }
-    LOCAL_VIEW_ELEMENT.innerHTML = ""
-    videoTrack.play(LOCAL_VIEW_ELEMENT)
-    logger.debug("local video track play success")
+    this._localViewElement.innerHTML = ""
+    videoTrack.play(this._localViewElement)
+    this._syncVideoPlaceholder(this.callConfig.userId)
+    this.logger.debug("local video track play success")
   }
 
   private _palyRemoteVideo() {
     const videoTrack = this.remoteTracks.videoTrack
     if (!videoTrack) {
       const msg = "remote video track is undefined"
-      return logger.debug(msg)
+      return this.logger.debug(msg)
+    }
+    if (videoTrack.isPlaying) {
+      return this.logger.debug("remote video track is playing")
+    }
+    this._remoteViewElement.innerHTML = ""
+    videoTrack.play(
+      this._remoteViewElement,
+      this._genRemotePlayConfig(this.remoteUserId),
+    )
+    this._syncVideoPlaceholder(this.remoteUserId)
+    this.logger.debug("remote video track play success")
+  }
+
+  /**
+   * 屏幕共享时完整显示画面，避免裁剪
+   */
+  private _genRemotePlayConfig(userId: number) {
+    return {
+      fit: this._remoteScreenSharing.has(userId) ? "contain" : "cover",
+    } as const
+  }
+
+  private _replayRemoteVideo(userId: number) {
+    const participant = this._callGroup.get(userId)
+    if (participant) {
+      participant.tracks.videoTrack?.stop()
+      if (this.state == CallStateType.connected) {
+        this._playParticipantVideo(participant)
+      }
+      return
+    }
+    this.remoteTracks.videoTrack?.stop()
+    this._palyRemoteVideo()
+  }
+
+  /**
+   * 群组通话中每个成员使用独立的视图，添加在 remoteView 中
+   */
+  private _playParticipantVideo(participant: ICallParticipant) {
+    const { userId, tracks } = participant
+    const { remoteView } = this.prepareConfig
+    const videoTrack = tracks.videoTrack
+    if (!videoTrack || !remoteView || !this._callGroup.isAnswered(userId)) {
+      return
+    }
+    const view = this._callGroup.getView(userId)
+    if (view.parentElement !== remoteView) {
+      remoteView.appendChild(view)
     }
     if (videoTrack.isPlaying) {
-      return logger.debug("remote video track is playing")
+      return
+    }
+    view.innerHTML = ""
+    videoTrack.play(view, this._genRemotePlayConfig(userId))
+    this._syncVideoPlaceholder(userId)
+    this.logger.debug(`participant video track play success,uid:${userId}`)
+  }
+
+  private _getRemoteAudioTracks() {
+    const tracks =
+      this.callMode == CallMode.group
+        ? this._callGroup
+            .list()
+            .filter(({ userId }) => this._callGroup.isAnswered(userId))
+            .map(({ tracks }) => tracks.audioTrack)
+        : [this.remoteTracks.audioTrack]
+    return tracks.filter((track) => !!track)
+  }
+
+  private _applySpeaker() {
+    const speakerId = this._speakerId
+    if (!speakerId) {
+      return
     }
-    REMOTE_VIEW_ELEMENT.innerHTML = ""
-    videoTrack.play(REMOTE_VIEW_ELEMENT)
-    logger.debug("remote video track play success")
+    this._getRemoteAudioTracks().forEach((track) => {
+      track.setPlaybackDevice(speakerId).catch((e) => {
+        this.logger.warn(`set playback device fail,deviceId:${speakerId}`, e?.message)
+      })
+    })
   }
 
   private _playRemoteAudio() {
+    if (this.callMode == CallMode.group) {
+      this._getRemoteAudioTracks().forEach((track) => {
+        if (!track.isPlaying) {
+          track.play()
+        }
+      })
+      this._applySpeaker()
+      return
+    }
     const audioTrack = this.remoteTracks.audioTrack
     if (!audioTrack) {
       const msg = "remote audio track is undefined"
-      return logger.debug(msg)
+      return this.logger.debug(msg)
     }
     if (audioTrack.isPlaying) {
-      return logger.debug("remote audio track is playing")
+      return this.logger.debug("remote audio track is playing")
     }
     audioTrack.play()
-    logger.debug("remote audio track play success")
+    this._applySpeaker()
+    this.logger.debug("remote audio track play success")
+  }
+
+  /**
+   * 监听媒体引擎事件，release 时移除（媒体引擎可能由外部传入）
+   */
+  private _onMediaEngine<Key extends keyof CallMediaEngineEvents>(
+    evt: Key,
+    cb: CallMediaEngineEvents[Key],
+  ) {
+    this.mediaEngine.on(evt, cb)
+    this._listenerRemovers.push(() => this.mediaEngine.off(evt, cb))
+  }
+
+  private _listenDeviceEvents() {
+    this._onMediaEngine("camera-changed", async (info) => {
+      const videoTrack = this.localTracks.videoTrack
+      if (!videoTrack || !this._isActiveDeviceRemoved(info, videoTrack)) {
+        return
+      }
+      let cameras: MediaDeviceInfo[]
+      try {
+        cameras = await this.mediaEngine.getCameras(true)
+      } catch (e) {
+        this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
+        return
+      }
+      const camera = cameras.find(
+        (item) => item.deviceId != info.device.deviceId,
+      )
+      if (!camera) {
+        this.logger.warn("camera removed, no camera available")
+        this._callEventChange(CallEvent.noCameraAvailable)
+        return
+      }
+      try {
+        await videoTrack.setDevice(camera.deviceId)
+      } catch (e) {
+        this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
+        return
+      }
+      this.logger.debug(`camera removed, fallback to ${camera.label}`)
+      this._callEventChange(CallEvent.cameraFallback, camera.label)
+    })
+    this._onMediaEngine("microphone-changed", async (info) => {
+      const audioTrack = this.localTracks.audioTrack
+      if (!audioTrack || !this._isActiveDeviceRemoved(info, audioTrack)) {
+        return
+      }
+      let microphones: MediaDeviceInfo[]
+      try {
+        microphones = await this.mediaEngine.getMicrophones(true)
+      } catch (e) {
+        this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
+        return
+      }
+      const microphone = microphones.find(
+        (item) => item.deviceId != info.device.deviceId,
+      )
+      if (!microphone) {
+        this.logger.warn("microphone removed, no microphone available")
+        this._callEventChange(CallEvent.noMicrophoneAvailable)
+        return
+      }
+      try {
+        await audioTrack.setDevice(microphone.deviceId)
+      } catch (e) {
+        this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
+        return
+      }
+      this.logger.debug(`microphone removed, fallback to ${microphone.label}`)
+      this._callEventChange(CallEvent.microphoneFallback, microphone.label)
+    })
+    this._onMediaEngine("playback-device-changed", async (info) => {
+      if (
+        info.state != "INACTIVE" ||
+        !this._speakerId ||
+        info.device.deviceId != this._speakerId
+      ) {
+        return
+      }
+      let speakers: MediaDeviceInfo[]
+      try {
+        speakers = await this.mediaEngine.getPlaybackDevices(true)
+      } catch (e) {
+        this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
+        return
+      }
+      const speaker =
+        speakers.find((item) => item.deviceId == "default") ?? speakers[0]
+      this._speakerId = undefined
+      if (!speaker) {
+        return
+      }
+      try {
+        await this.switchSpeaker(speaker.deviceId)
+      } catch (e) {
+        // callError has been emitted in switchSpeaker
+        return
+      }
+      this.logger.debug(`speaker removed, fallback to ${speaker.label}`)
+      this._callEventChange(CallEvent.speakerFallback, speaker.label)
+    })
+  }
+
+  /**
+   * 本地轨道正在使用的设备是否被移除
+   */
+  private _isActiveDeviceRemoved(
+    info: DeviceInfo,
+    track: { getMediaStreamTrack(): MediaStreamTrack },
+  ) {
+    if (info.state != "INACTIVE") {
+      return false
+    }
+    const mediaStreamTrack = track.getMediaStreamTrack()
+    return (
+      mediaStreamTrack.readyState == "ended" ||
+      mediaStreamTrack.getSettings().deviceId == info.device.deviceId
+    )
   }
 
   private _listenRtcEvents() {
-    this.rtcClient?.on("user-joined", (user) => {
-      if (user.uid != this.remoteUserId) {
+    this._onMediaEngine("network-quality", (quality) => {
+      this._callStats.networkQuality = quality
+    })
+    this._onMediaEngine("connection-state-change", (curState, revState, reason) => {
+      this.logger.debug(
+        `rtc connection state change,curState:${curState},revState:${revState},reason:${reason}`,
+      )
+      this._traceRtcEvent("connection-state-change", {
+        curState,
+        revState,
+        reason,
+      })
+      if (!this._rtcJoined || !this.isBusy) {
+        return
+      }
+      if (curState != "CONNECTED") {
+        this._recheckRtmLostPolicy()
+      }
+      if (curState == "RECONNECTING") {
+        this._handleRtcReconnecting()
+      } else if (curState == "CONNECTED" && revState == "RECONNECTING") {
+        this._handleRtcReconnected()
+      } else if (curState == "DISCONNECTED" && reason != "LEAVE") {
+        // e.g. banned by the server, can not recover
+        this._handleRtcLost()
+      }
+    })
+    this._onMediaEngine("user-joined", (user) => {
+      if (!this._isRemoteRtcUser(user.uid)) {
         return
       }
-      logger.debug(`rtc remote user join,uid:${user.uid}`)
+      this.logger.debug(`rtc remote user join,uid:${user.uid}`)
+      this._traceRtcEvent("user-joined", { uid: user.uid })
+      if (this._remoteReconnectTimer) {
+        this._clearRemoteReconnectTimer()
+        this._callEventChange(CallEvent.remoteReconnected)
+      }
       this._callInfo.add("remoteUserJoinChannel")
       this._callEventChange(CallEvent.remoteJoined)
+      if (this.callMode == CallMode.group) {
+        const participant = this._callGroup.get(user.uid)!
+        participant.inChannel = true
+        if (participant.state == ParticipantState.accepted) {
+          this._participantStateChange(user.uid, ParticipantState.joined)
+        }
+      }
     })
-    this.rtcClient?.on("user-left", async (user) => {
-      if (user.uid != this.remoteUserId) {
+    this._onMediaEngine("user-left", async (user, reason) => {
+      if (!this._isRemoteRtcUser(user.uid)) {
         return
       }
-      logger.debug(`rtc remote user leave,uid:${user.uid}`)
+      this.logger.debug(`rtc remote user leave,uid:${user.uid},reason:${reason}`)
+      this._traceRtcEvent("user-left", { uid: user.uid, reason })
       this._callEventChange(CallEvent.remoteLeft)
+      if (this.callMode == CallMode.group) {
+        const participant = this._callGroup.get(user.uid)!
+        participant.inChannel = false
+        participant.tracks = {}
+        this._callGroup.removeView(participant.userId)
+        this._participantStateChange(user.uid, ParticipantState.left)
+        await this._checkGroupEnd(CallStateReason.remoteHangup)
+        this._recheckRtmLostPolicy()
+        return
+      }
+      if (this._remoteHeld) {
+        // remote user held the call, wait for resume
+        return
+      }
+      if (reason == "ServerTimeOut" && this.isBusy) {
+        // remote user network is down, not hangup
+        this._handleRemoteReconnecting()
+        this._recheckRtmLostPolicy()
+        return
+      }
       if (this.isBusy) {
         await this.destory()
-        this._callStateChange(
-          CallStateType.prepared,
-          CallStateReason.remoteHangup,
-        )
+        this._callStateChange(CallStateReason.remoteHangup)
       }
     })
-    this.rtcClient?.on("user-published", async (user, mediaType) => {
-      if (user.uid != this.remoteUserId) {
+    this._onMediaEngine("user-published", async (user, mediaType) => {
+      if (!this._isRemoteRtcUser(user.uid)) {
+        return
+      }
+      this._traceRtcEvent("user-published", { uid: user.uid, mediaType })
+      try {
+        await this.mediaEngine.subscribe(user, mediaType)
+      } catch (e) {
+        // e.g. the remote user has left before subscribing
+        this._callError(CallErrorEvent.rtcOccurError, CallErrorCodeType.rtc, e)
         return
       }
-      await this.rtcClient?.subscribe(user, mediaType)
-      logger.debug(
+      this.logger.debug(
         `subscribe user success,uid:${user.uid},mediaType:${mediaType}`,
       )
+      const participant = this._callGroup.get(user.uid)
+      const remoteTracks = participant ? participant.tracks : this.remoteTracks
       if (mediaType === "video") {
         const remoteVideoTrack = user.videoTrack
-        this.remoteTracks.videoTrack = remoteVideoTrack
-        remoteVideoTrack?.on(
-          "first-frame-decoded",
-          this._handleRemoteFirstFrameDecoded.bind(this),
-        )
-        this._palyRemoteVideo()
+        remoteTracks.videoTrack = remoteVideoTrack
+        if (this.callType == CallType.video) {
+          remoteVideoTrack?.on(
+            "first-frame-decoded",
+            this._handleRemoteFirstFrameDecoded.bind(this),
+          )
+        }
+        if (participant) {
+          if (this.state == CallStateType.connected) {
+            this._playParticipantVideo(participant)
+          }
+        } else {
+          this._palyRemoteVideo()
+        }
       } else if (mediaType == "audio") {
         const remoteAudioTrack = user.audioTrack
-        this.remoteTracks.audioTrack = remoteAudioTrack
+        remoteTracks.audioTrack = remoteAudioTrack
+        if (this.callType == CallType.audio) {
+          remoteAudioTrack?.on(
+            "first-frame-decoded",
+            this._handleRemoteFirstFrameDecoded.bind(this),
+          )
+        }
         if (this.state == CallStateType.connected) {
           // 有可能先connected再收到远端音频流
           // 这种情况下需要主动播放远端音频流声音
@@ -566,75 +2489,311 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
         }
       }
     })
-    this.rtcClient?.on("user-unpublished", async (user, mediaType) => {
-      if (user.uid != this.remoteUserId) {
+    this._onMediaEngine("user-unpublished", async (user, mediaType) => {
+      if (!this._isRemoteRtcUser(user.uid)) {
         return
       }
-      await this.rtcClient?.unsubscribe(user, mediaType)
-      logger.debug(
+      this._traceRtcEvent("user-unpublished", { uid: user.uid, mediaType })
+      await this.mediaEngine.unsubscribe(user, mediaType)
+      this.logger.debug(
         `unsubscribe user success,uid:${user.uid},mediaType:${mediaType}`,
       )
+      const participant = this._callGroup.get(user.uid)
+      const remoteTracks = participant ? participant.tracks : this.remoteTracks
       if (mediaType === "video") {
-        this.remoteTracks.videoTrack = undefined
+        remoteTracks.videoTrack = undefined
       } else if (mediaType == "audio") {
-        this.remoteTracks.audioTrack = undefined
+        remoteTracks.audioTrack = undefined
       }
     })
-    // this.rtcClient?.on("token-privilege-will-expire", async () => {
-    //   // TODO:
-    //   // rtm renew token
-    // })
+    this._onMediaEngine("token-privilege-will-expire", async () => {
+      this.logger.debug("rtc token will expire")
+      this._traceRtcEvent("token-privilege-will-expire")
+      await this._renewRtcToken()
+    })
+    this._onMediaEngine("token-privilege-did-expire", async () => {
+      this.logger.warn("rtc token did expire")
+      this._traceRtcEvent("token-privilege-did-expire")
+      await this._renewRtcToken()
+    })
+  }
+
+  private _handleRtcReconnecting() {
+    if (this._rtcReconnecting) {
+      return
+    }
+    this._rtcReconnecting = true
+    this._callEventChange(CallEvent.rtcReconnecting)
+    const time =
+      this.callConfig.rtcLostConfig?.reconnectTimeoutMillisecond ??
+      DEFAULT_RTC_RECONNECT_TIMEOUT
+    if (time) {
+      this._rtcReconnectTimer = this.clock.setTimeout(() => {
+        this._rtcReconnectTimer = null
+        this.logger.warn("rtc reconnect timeout")
+        this._handleRtcLost()
+      }, time)
+    }
+  }
+
+  private _handleRtcReconnected() {
+    if (!this._rtcReconnecting) {
+      return
+    }
+    this._clearRtcReconnectTimer()
+    this._callEventChange(CallEvent.rtcReconnected)
+  }
+
+  private async _handleRtcLost() {
+    this._clearRtcReconnectTimer()
+    if (!this._callStateChange(CallStateReason.rtcLost)) {
+      return
+    }
+    try {
+      await this.destory()
+    } catch (e: any) {
+      // called without await, callError has been emitted in destory
+      this.logger.warn(`destory fail after rtc lost`, e?.message)
+    }
+  }
+
+  private _handleRemoteReconnecting() {
+    if (this._remoteReconnectTimer) {
+      return
+    }
+    this._callEventChange(CallEvent.remoteReconnecting)
+    const time =
+      this.callConfig.rtcLostConfig?.remoteReconnectTimeoutMillisecond ??
+      DEFAULT_RTC_RECONNECT_TIMEOUT
+    this._remoteReconnectTimer = this.clock.setTimeout(async () => {
+      this._remoteReconnectTimer = null
+      this.logger.warn("remote user reconnect timeout")
+      if (!this._callStateChange(CallStateReason.remoteRtcLost)) {
+        return
+      }
+      try {
+        await this.destory()
+      } catch (e: any) {
+        // callError has been emitted in destory
+        this.logger.warn(`destory fail after remote rtc lost`, e?.message)
+      }
+    }, time)
+  }
+
+  private _clearRtcReconnectTimer() {
+    this._rtcReconnecting = false
+    if (this._rtcReconnectTimer) {
+      this.clock.clearTimeout(this._rtcReconnectTimer)
+      this._rtcReconnectTimer = null
+    }
+  }
+
+  private _clearRemoteReconnectTimer() {
+    if (this._remoteReconnectTimer) {
+      this.clock.clearTimeout(this._remoteReconnectTimer)
+      this._remoteReconnectTimer = null
+    }
+  }
+
+  private async _renewRtcToken() {
+    const { tokenProvider } = this.callConfig
+    if (!tokenProvider) {
+      return this.logger.warn("tokenProvider is undefined, skip renew rtc token")
+    }
+    try {
+      const token = await tokenProvider(CallTokenType.rtc, this.roomId)
+      if (!token) {
+        throw new Error("tokenProvider return empty token")
+      }
+      this._addToken(token)
+      this.prepareConfig.rtcToken = token
+      if (this._rtcJoined) {
+        await this.mediaEngine.renewToken(token)
+      }
+      this.logger.debug("renew rtc token success")
+    } catch (e) {
+      this._callError(
+        CallErrorEvent.renewRtcTokenFail,
+        CallErrorCodeType.rtc,
+        e,
+      )
+    }
   }
 
-  private async _autoReject(remoteUserId: number) {
+  private _addToken(token?: string) {
+    if (token) {
+      this._tokens.add(token)
+    }
+  }
+
+  private async _renewMessageToken(channelName: string) {
+    const { tokenProvider } = this.callConfig
+    if (!tokenProvider) {
+      return this.logger.warn("tokenProvider is undefined, skip renew message token")
+    }
+    try {
+      const token = await tokenProvider(CallTokenType.message, channelName)
+      if (!token) {
+        throw new Error("tokenProvider return empty token")
+      }
+      this._addToken(token)
+      await this.callMessageManager.renewToken(token)
+      this.logger.debug("renew message token success")
+    } catch (e) {
+      this._callError(
+        CallErrorEvent.renewMessageTokenFail,
+        CallErrorCodeType.message,
+        e,
+      )
+    }
+  }
+
+  private async _autoReject(callId: string, remoteUserId: number) {
     await this._publishMessage(remoteUserId, {
+      callId,
       fromUserId: this.callConfig.userId,
       remoteUserId,
       message_action: CallAction.Reject,
       rejectReason: "busy",
       rejectByInternal: RejectByInternal.Internal,
     })
-    logger.debug(`busy state, auto reject remoteUserId:${remoteUserId} success`)
+    this.logger.debug(`busy state, auto reject remoteUserId:${remoteUserId} success`)
   }
 
   private async _autoCancelCall(isLocal: boolean) {
-    if (!this.remoteUserId) {
+    if (!this.remoteUserId && this.callMode != CallMode.group) {
       return
     }
     const time = this.prepareConfig?.callTimeoutMillisecond
     if (time) {
       if (this._cancelCallTimer) {
-        clearTimeout(this._cancelCallTimer)
+        this.clock.clearTimeout(this._cancelCallTimer)
         this._cancelCallTimer = null
       }
-      this._cancelCallTimer = setTimeout(async () => {
+      this._cancelCallTimer = this.clock.setTimeout(async () => {
+        if (
+          this.callMode == CallMode.group &&
+          this.state == CallStateType.connected
+        ) {
+          // group call is connected, the caller cancels the invitees who have not answered
+          if (isLocal) {
+            await this._cancelGroupInvites()
+          }
+          return
+        }
         if (
           this.state == CallStateType.calling ||
           this.state == CallStateType.connecting
         ) {
-          this._callStateChange(
-            CallStateType.prepared,
-            CallStateReason.callingTimeout,
-          )
+          this._callStateChange(CallStateReason.callingTimeout)
           this._callEventChange(isLocal ? CallEvent.callingTimeout : CallEvent.remoteCallingTimeout)
+          const message: Partial<ICallMessage> = {
+            message_action: CallAction.Cancel,
+            cancelCallByInternal: RejectByInternal.Internal,
+          }
           await Promise.all([
-            this._publishMessage(this.remoteUserId, {
-              fromUserId: this.callConfig.userId,
-              remoteUserId: this.remoteUserId,
-              message_action: CallAction.Cancel,
-              cancelCallByInternal: RejectByInternal.Internal,
-            }),
+            this.callMode == CallMode.group
+              ? this._broadcastMessage(message)
+              : this._publishMessage(this.remoteUserId, {
+                  ...message,
+                  fromUserId: this.callConfig.userId,
+                  remoteUserId: this.remoteUserId,
+                }),
             this.destory()
           ])
-          logger.debug(`auto cancelCall success`)
+          this.logger.debug(`auto cancelCall success`)
         }
       }, time)
     }
   }
 
+  private async _cancelGroupInvites() {
+    const userIds = this._callGroup
+      .list()
+      .filter((participant) => participant.state == ParticipantState.invited)
+      .map((participant) => participant.userId)
+    userIds.forEach((userId) =>
+      this._participantStateChange(userId, ParticipantState.left),
+    )
+    await Promise.allSettled(
+      userIds.map((userId) =>
+        this._publishMessage(userId, {
+          fromUserId: this.callConfig.userId,
+          remoteUserId: userId,
+          message_action: CallAction.Cancel,
+          cancelCallByInternal: RejectByInternal.Internal,
+        }),
+      ),
+    )
+    this.logger.debug(`cancel group invites success,remoteUserIds:${userIds}`)
+  }
+
+  private _isRemoteRtcUser(uid: string | number) {
+    if (this.callMode == CallMode.group) {
+      return this._callGroup.has(uid)
+    }
+    return uid == this.remoteUserId
+  }
+
+  private _participantStateChange(
+    userId: string | number,
+    state: ParticipantState,
+  ) {
+    if (!this._callGroup.update(userId, state)) {
+      return
+    }
+    this.logger.debug("participantStateChanged", userId, state)
+    this.emit("participantStateChanged", Number(userId), state)
+    if (
+      this.state == CallStateType.connected &&
+      this._callGroup.isAnswered(userId)
+    ) {
+      // play the media of the participant who accepts after connected
+      const participant = this._callGroup.get(userId)!
+      if (this.callType == CallType.video) {
+        this._playParticipantVideo(participant)
+      }
+      this._playRemoteAudio()
+    }
+  }
+
+  /**
+   * 群组通话中所有其他成员都已结束（拒绝/离开）时结束通话
+   */
+  private async _checkGroupEnd(
+    stateReason: CallStateReason,
+    eventInfo?: Record<string, any>,
+  ) {
+    if (!this.isBusy || this._callGroup.hasActive) {
+      return
+    }
+    if (!this._stateMachine.can(stateReason)) {
+      // e.g. the last invitee rejects after the call is connected
+      stateReason = CallStateReason.remoteHangup
+    }
+    this._callStateChange(stateReason, "", eventInfo)
+    await this.destory()
+  }
+
+  /**
+   * 群组通话中给所有未结束的成员发送消息
+   */
+  private async _broadcastMessage(message: Partial<ICallMessage>) {
+    const userIds = this._callGroup.activeUserIds()
+    await Promise.allSettled(
+      userIds.map((userId) =>
+        this._publishMessage(userId, {
+          ...message,
+          fromUserId: this.callConfig.userId,
+          remoteUserId: userId,
+        }),
+      ),
+    )
+  }
+
   private async _rtcJoin() {
     if (this._rtcJoined) {
-      return logger.warn("rtc has joined")
+      return this.logger.warn("rtc has joined")
     }
     const { appId, userId } = this.callConfig
     const { rtcToken, roomId } = this.prepareConfig
@@ -645,8 +2804,8 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
       throw new Error("rtcToken is undefined")
     }
     this._callEventChange(CallEvent.joinRTCStart)
-    await this.rtcClient?.join(appId, roomId, rtcToken, userId)
-    logger.debug(`rtc join success,roomId:${roomId},userId:${userId}`)
+    await this.mediaEngine.join(appId, roomId, rtcToken, userId)
+    this.logger.debug(`rtc join success,roomId:${roomId},userId:${userId}`)
     this._rtcJoined = true
     this._callEventChange(CallEvent.joinRTCSuccessed)
     this._callEventChange(CallEvent.localJoined)
@@ -655,38 +2814,76 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
 
   private async _createLocalTracks() {
     const { audioConfig, videoConfig } = this.prepareConfig!
-    const tracks = await createMicrophoneAndCameraTracks(
-      audioConfig,
-      videoConfig,
-    )
-    this.localTracks.audioTrack = tracks[0]
-    this.localTracks.videoTrack = tracks[1]
+    if (this.callType == CallType.audio) {
+      // audio call only need microphone track
+      this.localTracks.audioTrack =
+        await this.mediaEngine.createMicrophoneAudioTrack(audioConfig)
+    } else {
+      const tracks = await this.mediaEngine.createMicrophoneAndCameraTracks(
+        audioConfig,
+        videoConfig,
+      )
+      this.localTracks.audioTrack = tracks[0]
+      this.localTracks.videoTrack = tracks[1]
+    }
+    // apply the mute state changed before the tracks are created
+    if (this.localMuteState.audio) {
+      await this.localTracks.audioTrack.setMuted(true)
+    }
+    if (this.localMuteState.video) {
+      await this.localTracks.videoTrack?.setMuted(true)
+    }
   }
 
   private async _rtcPublish() {
+    if (this.callType == CallType.audio) {
+      if (!this.localTracks.audioTrack) {
+        const msg = "audioTrack is undefined"
+        this.logger.error(msg)
+        throw new Error(msg)
+      }
+      await this.mediaEngine.publish([this.localTracks.audioTrack])
+      this.logger.debug("rtc publish audio success")
+      return
+    }
     if (this.localTracks.videoTrack && this.localTracks.audioTrack) {
-      await this.rtcClient?.publish([
-        this.localTracks.videoTrack,
+      // screen track replaces camera track while sharing
+      await this.mediaEngine.publish([
+        this.localTracks.screenTrack ?? this.localTracks.videoTrack,
         this.localTracks.audioTrack,
       ])
-      logger.debug("rtc publish success")
+      this.logger.debug("rtc publish success")
       this._callEventChange(CallEvent.publishFirstLocalVideoFrame)
     } else {
       const msg = "videoTrack or audioTrack is undefined"
-      logger.error(msg)
+      this.logger.error(msg)
       throw new Error(msg)
     }
   }
 
+  /**
+   * 发送消息，首次发送成功后即返回，在后台等待对端回执
+   * 对端支持回执或者是呼叫邀请时，未收到回执按退避间隔重发，超过截止时间后触发 missingReceipts
+   * @param onReceipt 收到回执时回调（对端未声明支持回执时在首次发送成功后回调）
+   */
   private async _publishMessage(
     uid: string | number,
     message: Partial<ICallMessage>,
+    onReceipt?: () => void,
   ) {
+    const messageId = uuidv4()
+    let encodeMessage = ""
     try {
-      const encodeMessage = this._callMessage.encode(message)
+      encodeMessage = await this._callMessage.encode({ ...message, messageId })
+      this._callReceipt.track(messageId)
       await this.callMessageManager.sendMessage(uid.toString(), encodeMessage)
-      logger.debug(`message send success, uid:${uid} `, encodeMessage)
+      this._traceMessage(CallTraceType.messageSent, uid, encodeMessage)
+      this.logger.debug(
+        `message send success, uid:${uid} `,
+        this._callMessage.redact(encodeMessage),
+      )
     } catch (e) {
+      this._callReceipt.release(messageId)
       this._callError(
         CallErrorEvent.sendMessageFail,
         CallErrorCodeType.message,
@@ -694,6 +2891,79 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
       )
       throw e
     }
+    if (onReceipt && !this._receiptUsers.has(Number(uid))) {
+      // the remote user may never ack (e.g. older versions)
+      onReceipt()
+      onReceipt = undefined
+    }
+    const isInvite =
+      message.message_action == CallAction.VideoCall ||
+      message.message_action == CallAction.AudioCall
+    this._waitReceipt(uid, messageId, encodeMessage, isInvite).then(
+      (received) => {
+        this._callReceipt.release(messageId)
+        if (received) {
+          onReceipt?.()
+        }
+      },
+    )
+  }
+
+  /**
+   * @param retransmit 对端未声明支持回执时是否也重发（呼叫邀请丢失时需要重发和上报）
+   */
+  private async _waitReceipt(
+    uid: string | number,
+    messageId: string,
+    encodeMessage: string,
+    retransmit: boolean,
+  ) {
+    const {
+      retryIntervalMillisecond = DEFAULT_RECEIPT_RETRY_INTERVAL,
+      maxRetryIntervalMillisecond = DEFAULT_RECEIPT_MAX_RETRY_INTERVAL,
+      timeoutMillisecond = DEFAULT_RECEIPT_TIMEOUT,
+    } = this.callConfig.receiptConfig ?? {}
+    if (!timeoutMillisecond) {
+      return true
+    }
+    const userId = Number(uid)
+    if (!this._receiptUsers.has(userId) && !retransmit) {
+      // the remote user may not support receipts (e.g. older versions), do not resend
+      const received = await this._callReceipt.wait(
+        messageId,
+        timeoutMillisecond,
+      )
+      if (received) {
+        this._receiptUsers.add(userId)
+      }
+      return received
+    }
+    const deadline = this.clock.now() + timeoutMillisecond
+    let interval = retryIntervalMillisecond
+    while (true) {
+      const remain = deadline - this.clock.now()
+      const received = await this._callReceipt.wait(
+        messageId,
+        Math.min(interval, Math.max(remain, 0)),
+      )
+      if (received) {
+        this.logger.debug(`message receipt success, messageId:${messageId}`)
+        return true
+      }
+      if (this.clock.now() >= deadline) {
+        this.logger.warn(`message receipt missing, uid:${uid},messageId:${messageId}`)
+        this._callEventChange(CallEvent.missingReceipts)
+        return false
+      }
+      try {
+        await this.callMessageManager.sendMessage(uid.toString(), encodeMessage)
+        this._traceMessage(CallTraceType.messageSent, uid, encodeMessage)
+        this.logger.debug(`message resend success, messageId:${messageId}`)
+      } catch (e: any) {
+        this.logger.warn(`message resend fail, messageId:${messageId}`, e?.message)
+      }
+      interval = Math.min(interval * 2, maxRetryIntervalMillisecond)
+    }
   }
 
   private _callError(
@@ -701,50 +2971,379 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
     errorType: CallErrorCodeType,
     err: any,
   ) {
-    logger.error(
+    this.logger.error(
       `onCallError! errorEvent:${errorEvent},errorType:${errorType},errorCode:${err.code},message:${err.message}`,
     )
     this.emit("callError", errorEvent, errorType, err.code, err.message)
   }
 
+  /**
+   * 按状态流转表变更状态
+   * @returns 是否为合法的状态流转（非法时触发 CallEvent.stateMismatch）
+   */
   private _callStateChange(
-    state: CallStateType,
     stateReason: CallStateReason,
     eventReason?: string,
     eventInfo?: Record<string, any>,
   ) {
-    if (this.state == state) {
-      return
+    const prevState = this.state
+    const transition = this._stateMachine.transition(stateReason)
+    if (!transition) {
+      this._stateMismatch(stateReason)
+      return false
     }
-    this.state = state
-    logger.debug(
+    const { to: state } = transition
+    this._trace(CallTraceType.stateChanged, {
+      prevState,
+      state,
+      stateReason,
+      eventReason,
+    })
+    if (prevState == state) {
+      // e.g. prepareForCall again, legal but callStateChanged is not emitted
+      this.logger.debug(
+        `callStateChanged skipped, state:${state} is not changed, stateReason:${stateReason}`,
+      )
+      return true
+    }
+    this.logger.debug(
       "callStateChanged",
       state,
       stateReason,
       eventReason,
-      JSON.stringify(eventInfo),
+      JSON.stringify(
+        eventInfo?.extension
+          ? {
+              ...eventInfo,
+              extension: redactExtension(
+                eventInfo.extension,
+                this.callConfig.extensionConfig?.logKeys,
+              ),
+            }
+          : eventInfo,
+      ),
     )
     this.emit("callStateChanged", state, stateReason, eventReason, eventInfo)
+    if (
+      stateReason == CallStateReason.localAccepted ||
+      stateReason == CallStateReason.remoteAccepted
+    ) {
+      this._callRecorder.answer()
+    } else if (state == CallStateType.connected) {
+      this._startStats()
+      this._startDurationTimer()
+      if (this.localMuteState.audio || this.localMuteState.video) {
+        // sync the mute state changed before connected
+        this._sendMuteState().catch((e) => {
+          // callError has been emitted in _publishMessage
+          this.logger.warn(`sync mute state fail`, e?.message)
+        })
+      }
+    } else if (
+      state == CallStateType.prepared &&
+      stateReason != CallStateReason.localHeld
+    ) {
+      this._saveCallRecord(this._callRecorder.end(stateReason))
+    }
+    return true
+  }
+
+  private _startStats() {
+    this._stopStats()
+    const time =
+      this.prepareConfig?.statsIntervalMillisecond ?? DEFAULT_STATS_INTERVAL
+    if (!time) {
+      return
+    }
+    this._statsTimer = this.clock.setInterval(() => {
+      if (this.state != CallStateType.connected) {
+        return
+      }
+      const stats = this._callStats.collect(
+        this.mediaEngine,
+        this.callType,
+        this.localTracks,
+        (uid) => this._isRemoteRtcUser(uid),
+      )
+      this._callRecorder.addStats(stats)
+      this.emit("callStatsChanged", stats)
+    }, time)
+  }
+
+  private _startDurationTimer() {
+    this._stopDurationTimer()
+    if (!this._connectedTime) {
+      this._connectedTime = this.clock.now()
+    }
+    const {
+      durationTickIntervalMillisecond = DEFAULT_DURATION_TICK_INTERVAL,
+      maxCallDurationMillisecond,
+      callDurationWarningMillisecond = DEFAULT_CALL_DURATION_WARNING,
+    } = this.prepareConfig
+    if (durationTickIntervalMillisecond) {
+      this._durationTickTimer = this.clock.setInterval(() => {
+        this.emit("callDurationChanged", this.getCallDuration())
+      }, durationTickIntervalMillisecond)
+    }
+    if (!maxCallDurationMillisecond) {
+      return
+    }
+    const remaining = maxCallDurationMillisecond - this.getCallDuration()
+    const warningTime = remaining - callDurationWarningMillisecond
+    if (callDurationWarningMillisecond && warningTime > 0) {
+      this._durationWarningTimer = this.clock.setTimeout(() => {
+        this._durationWarningTimer = null
+        this._callEventChange(
+          CallEvent.callDurationWarning,
+          callDurationWarningMillisecond.toString(),
+        )
+      }, warningTime)
+    }
+    this._durationLimitTimer = this.clock.setTimeout(
+      () => {
+        this._durationLimitTimer = null
+        this._hangupByMaxDuration().catch((e) => {
+          // callError has been emitted, destory runs even if the hangup is not sent
+          this.logger.warn(`hangup by max duration fail`, e?.message)
+        })
+      },
+      Math.max(remaining, 0),
+    )
+  }
+
+  private _stopDurationTimer() {
+    if (this._durationTickTimer) {
+      this.clock.clearInterval(this._durationTickTimer)
+      this._durationTickTimer = null
+    }
+    if (this._durationWarningTimer) {
+      this.clock.clearTimeout(this._durationWarningTimer)
+      this._durationWarningTimer = null
+    }
+    if (this._durationLimitTimer) {
+      this.clock.clearTimeout(this._durationLimitTimer)
+      this._durationLimitTimer = null
+    }
+  }
+
+  /**
+   * 达到最大通话时长，挂断并通知远端
+   */
+  private async _hangupByMaxDuration() {
+    if (!this._callStateChange(CallStateReason.maxDurationReached)) {
+      return
+    }
+    this.logger.debug(`max call duration reached, hangup`)
+    this._callEventChange(CallEvent.callDurationLimitReached)
+    const message: Partial<ICallMessage> = {
+      message_action: CallAction.Hangup,
+      hangupReason: CallStateReason.maxDurationReached,
+    }
+    await Promise.all([
+      this.callMode == CallMode.group
+        ? this._broadcastMessage(message)
+        : this._publishMessage(this.remoteUserId, {
+            ...message,
+            fromUserId: this.callConfig.userId,
+            remoteUserId: this.remoteUserId,
+          }),
+      this.destory(),
+    ])
+  }
+
+  private _stopStats() {
+    if (this._statsTimer) {
+      this.clock.clearInterval(this._statsTimer)
+      this._statsTimer = null
+    }
+  }
+
+  private _startCallRecord(direction: CallDirection) {
+    const isGroup = this.callMode == CallMode.group
+    const remoteUserIds = this._callGroup.list().map((item) => item.userId)
+    this._callRecorder.start({
+      callId: this.getCallId(),
+      remoteUserId: isGroup
+        ? this._callGroup.callerId == this.callConfig.userId
+          ? remoteUserIds[0]
+          : this._callGroup.callerId
+        : this.remoteUserId,
+      remoteUserIds: isGroup ? remoteUserIds : undefined,
+      direction,
+      callType: this.callType,
+      callMode: this.callMode,
+    })
+  }
+
+  private _genIncomingCallRecord(data: ICallMessage) {
+    const { callId, fromUserId, remoteUserIds, message_action } = data
+    const isGroup = !!remoteUserIds?.length
+    return this._callRecorder.create({
+      callId,
+      remoteUserId: Number(fromUserId),
+      remoteUserIds: isGroup
+        ? [
+            Number(fromUserId),
+            ...remoteUserIds
+              .map(Number)
+              .filter((userId) => userId != this.callConfig.userId),
+          ]
+        : undefined,
+      direction: CallDirection.incoming,
+      callType:
+        message_action == CallAction.AudioCall
+          ? CallType.audio
+          : CallType.video,
+      callMode: isGroup ? CallMode.group : CallMode.single,
+    })
+  }
+
+  private _saveCallRecord(record?: ICallRecord) {
+    if (!record) {
+      return
+    }
+    this.logger.debug("callRecordAdded", JSON.stringify(record))
+    this.emit("callRecordAdded", record)
+    this.callRecordStore.add(record).catch((e) => {
+      this.logger.warn(`save call record fail, callId:${record.callId}`, e?.message)
+    })
+  }
+
+  /**
+   * 检查当前状态下 stateReason 是否可以触发状态变更，不可以时触发 CallEvent.stateMismatch
+   */
+  private _checkCallState(stateReason: CallStateReason) {
+    if (this._stateMachine.can(stateReason)) {
+      return true
+    }
+    this._stateMismatch(stateReason)
+    return false
+  }
+
+  /**
+   * 公开方法调用前检查状态，不可以时抛出异常
+   */
+  private _assertCallState(method: string, stateReason: CallStateReason) {
+    if (this._checkCallState(stateReason)) {
+      return
+    }
+    const message = `${method} failed! ${this._genStateMismatchDetail(stateReason)}`
+    this.logger.error(message)
+    throw new Error(message)
+  }
+
+  /**
+   * 公开方法调用前检查扩展信息，不合法时抛出异常
+   */
+  private _assertExtension(method: string, extension?: Record<string, any>) {
+    try {
+      this._callMessage.checkExtension(extension)
+    } catch (e: any) {
+      e.message = `${method} failed! ${e.message}`
+      this.logger.error(e.message)
+      throw e
+    }
+  }
+
+  private _stateMismatch(stateReason: CallStateReason) {
+    const detail = this._genStateMismatchDetail(stateReason)
+    this.logger.warn(`state mismatch, ${detail}`)
+    this._callEventChange(CallEvent.stateMismatch, detail)
+  }
+
+  private _genStateMismatchDetail(stateReason: CallStateReason) {
+    return `current state:${this.state},role:${this.role},stateReason:${stateReason} is not allowed`
+  }
+
+  /**
+   * 添加当前通话的追踪记录
+   * 通话结束时 callId 已被重置，使用通话记录中的 callId
+   */
+  private _trace(type: CallTraceType, data: Record<string, any>) {
+    const callId = this.getCallId() || this._callRecorder.current?.callId || ""
+    this._callTracer.add(callId, type, data)
+  }
+
+  private _traceRtcEvent(name: string, data: Record<string, any> = {}) {
+    this._trace(CallTraceType.rtcEvent, { name, ...data })
+  }
+
+  private _traceMessage(
+    type: CallTraceType,
+    userId: string | number,
+    message: string,
+  ) {
+    const data = JSON.parse(this._callMessage.redact(message))
+    this._callTracer.add(data.callId, type, {
+      userId: Number(userId),
+      message: data,
+    })
   }
 
-  private _callEventChange(event: CallEvent) {
-    logger.debug("callEventChanged", event)
-    this.emit("callEventChanged", event)
+  private _callEventChange(event: CallEvent, eventReason?: string) {
+    this.logger.debug("callEventChanged", event, eventReason ?? "")
+    this._trace(CallTraceType.event, { event, eventReason })
+    this.emit("callEventChanged", event, eventReason)
   }
 
   private _resetData() {
     this._callMessage.setCallId("")
     this.remoteUserId = 0
+    this.callType = CallType.video
+    this.callMode = CallMode.single
+    this._stateMachine.role = undefined
+    this._callGroup.clear()
+    this._remoteHeld = false
+    this.localMuteState = { audio: false, video: false }
+    this._remoteMuteStates.clear()
+    this._remoteScreenSharing.clear()
+    this._clearLocalSwitchCallType()
+    this._remoteSwitchCallType = undefined
+    this._clearRtcReconnectTimer()
+    this._clearRemoteReconnectTimer()
+    this._stopDurationTimer()
+    this._connectedTime = 0
+    this._placeholders.forEach((placeholder) => placeholder.remove())
+    this._placeholders.clear()
     this.localTracks = {}
     this.remoteTracks = {}
     this._rtcJoined = false
     this._receiveRemoteFirstFrameDecoded = false
     this._resetView()
     if (this._cancelCallTimer) {
-      clearTimeout(this._cancelCallTimer)
+      this.clock.clearTimeout(this._cancelCallTimer)
       this._cancelCallTimer = null
     }
     this._callInfo.end()
+    this._stopStats()
+    this._callStats.reset()
+  }
+
+  /**
+   * 把视频视图移动到当前的 localView / remoteView 中（移动 dom 不会中断播放）
+   */
+  private _attachViews() {
+    const { localView, remoteView } = this.prepareConfig
+    if (localView) {
+      localView.appendChild(this._localViewElement)
+    } else {
+      this._localViewElement.remove()
+    }
+    if (this.callMode == CallMode.group) {
+      this._callGroup.list().forEach((participant) => {
+        if (remoteView) {
+          this._playParticipantVideo(participant)
+        } else {
+          this._callGroup.getView(participant.userId).remove()
+        }
+      })
+      return
+    }
+    if (remoteView) {
+      remoteView.appendChild(this._remoteViewElement)
+    } else {
+      this._remoteViewElement.remove()
+    }
   }
 
   private _resetView() {
@@ -763,7 +3362,7 @@ export class CallApi extends AGEventEmitter<CallApiEvents> {
     this._callInfo.add("recvFirstFrame")
     const info = this._callInfo.getInfo()
     this.emit("callInfoChanged", info)
-    logger.debug("callInfoChanged: ", info)
+    this.logger.debug("callInfoChanged: ", info)
     this._checkAppendView()
   }
   // ------- private -------
@@ -0,0 +1,120 @@
+import { ICallParticipant, ParticipantState } from "../types"
+import { genDivHtmlElement } from "../common"
+
+/**
+ * 群组通话成员管理
+ */
+export class CallGroup {
+  /** 主叫用户ID */
+  callerId: number = 0
+  private _participants: Map<number, ICallParticipant> = new Map()
+  private _views: Map<number, HTMLElement> = new Map()
+
+  /**
+   * 是否还有未结束（呼叫中/已接受/已加入）的成员
+   */
+  get hasActive() {
+    return this.list().some((item) => isActiveState(item.state))
+  }
+
+  /**
+   * 初始化成员
+   * @param callerId 主叫用户ID
+   * @param participants 成员及其初始状态
+   */
+  init(callerId: number, participants: [number, ParticipantState][]) {
+    this.clear()
+    this.callerId = callerId
+    participants.forEach(([userId, state]) => {
+      this._participants.set(userId, {
+        userId,
+        state,
+        inChannel: false,
+        tracks: {},
+      })
+    })
+  }
+
+  has(userId: string | number) {
+    return this._participants.has(Number(userId))
+  }
+
+  get(userId: string | number) {
+    return this._participants.get(Number(userId))
+  }
+
+  list() {
+    return Array.from(this._participants.values())
+  }
+
+  /**
+   * 未结束的成员ID（发送消息时使用）
+   */
+  activeUserIds() {
+    return this.list()
+      .filter((item) => isActiveState(item.state))
+      .map((item) => item.userId)
+  }
+
+  /**
+   * 成员是否已接受（已接受/已加入），只播放已接受的成员的音视频
+   */
+  isAnswered(userId: string | number) {
+    const participant = this.get(userId)
+    return (
+      !!participant &&
+      (participant.state == ParticipantState.accepted ||
+        participant.state == ParticipantState.joined)
+    )
+  }
+
+  /**
+   * 更新成员状态
+   * @returns 状态是否变化
+   */
+  update(userId: string | number, state: ParticipantState) {
+    const participant = this.get(userId)
+    if (!participant || participant.state == state) {
+      return false
+    }
+    // ended participant can not be active again
+    if (!isActiveState(participant.state)) {
+      return false
+    }
+    participant.state = state
+    return true
+  }
+
+  /**
+   * 获取成员的视图（不存在时创建）
+   */
+  getView(userId: number) {
+    let view = this._views.get(userId)
+    if (!view) {
+      view = genDivHtmlElement()
+      view.dataset.userId = userId.toString()
+      this._views.set(userId, view)
+    }
+    return view
+  }
+
+  removeView(userId: number) {
+    this._views.get(userId)?.remove()
+    this._views.delete(userId)
+  }
+
+  clear() {
+    this._views.forEach((view) => view.remove())
+    this._views.clear()
+    this._participants.clear()
+    this.callerId = 0
+  }
+}
+
+const isActiveState = (state: ParticipantState) => {
+  return (
+    state == ParticipantState.invited ||
+    state == ParticipantState.accepted ||
+    state == ParticipantState.joined
+  )
+}
@@ -1,11 +1,14 @@
-import { ICallInfo } from "../types"
+import { ICallClock, ICallInfo } from "../types"
+import { systemClock } from "../common"
 
 export class CallInfo {
   info: ICallInfo
+  clock: ICallClock
   private _time: number = 0
   private _started: boolean = false
 
-  constructor() {
+  constructor(clock: ICallClock = systemClock) {
+    this.clock = clock
     this.info = {
       remoteUserRecvCall: 0,
       acceptCall: 0,
@@ -23,12 +26,12 @@ export class CallInfo {
     if (this._started) {
       return
     }
-    this._time = Date.now()
+    this._time = this.clock.now()
     this._started = true
   }
 
   add(key: keyof ICallInfo) {
-    const time = Date.now()
+    const time = this.clock.now()
     this.info = {
       ...this.info,
       [key]: time - this._time,
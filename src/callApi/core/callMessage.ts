@@ -1,35 +1,344 @@
-import { logger } from "../common"
-import { ICallMessage } from "../types"
+import { Logger, encodeUint8Array, systemClock } from "../common"
+import {
+  CallAction,
+  ICallMessage,
+  CallMessageErrorCode,
+  ICallMessageSigner,
+  ICallExtensionConfig,
+  ICallClock,
+} from "../types"
+
+/** 当前消息协议版本 */
+export const CALL_MESSAGE_VERSION = "1.0"
+
+const DEFAULT_MAX_EXTENSION_SIZE = 4096
+const DEFAULT_MESSAGE_EXPIRE = 60 * 1000
+const REDACTED = "***"
+
+const CALL_ACTIONS = Object.values(CallAction).filter(
+  (item) => typeof item == "number",
+) as number[]
+
+const genMessageError = (code: CallMessageErrorCode, message: string) => {
+  const error: any = new Error(message)
+  error.code = code
+  return error
+}
+
+const getMajorVersion = (version: string) => {
+  return Number(version.split(".")[0])
+}
+
+const isUserId = (value: any) => {
+  if (typeof value == "number") {
+    return Number.isInteger(value) && value >= 0
+  }
+  return typeof value == "string" && /^\d+$/.test(value)
+}
+
+const isOptional = (value: any, type: "string" | "number" | "boolean") => {
+  return value === undefined || value === null || typeof value == type
+}
+
+/**
+ * 签名使用的消息内容：按 key 排序后的 json 字符串（不包含 signature 字段）
+ */
+const genSignPayload = (message: Record<string, any>) => {
+  const { signature, ...rest } = message
+  return JSON.stringify(
+    Object.keys(rest)
+      .sort()
+      .reduce((result: Record<string, any>, key) => {
+        result[key] = rest[key]
+        return result
+      }, {}),
+  )
+}
+
+/**
+ * 生成可以打印到日志中的扩展信息：不在 logKeys 中的字段的值替换为 ***
+ */
+export const redactExtension = (
+  extension: Record<string, any> | undefined,
+  logKeys: string[] = [],
+) => {
+  if (!extension || typeof extension != "object") {
+    return extension
+  }
+  return Object.keys(extension).reduce((result: Record<string, any>, key) => {
+    result[key] = logKeys.includes(key) ? extension[key] : REDACTED
+    return result
+  }, {})
+}
 
 export class CallMessage {
   callId: string = ""
+  signer?: ICallMessageSigner
+  /** 签名消息的有效期（毫秒），0 表示不检查 */
+  expireMillisecond: number = DEFAULT_MESSAGE_EXPIRE
+  extensionConfig: ICallExtensionConfig = {}
+  logger: Logger
+  clock: ICallClock
 
-  constructor() {}
+  constructor(logger?: Logger, clock: ICallClock = systemClock) {
+    this.logger = logger ?? new Logger({ prefix: "CallMessage" })
+    this.clock = clock
+  }
 
   setCallId(callId: string) {
     this.callId = callId
   }
 
+  setSigner(signer?: ICallMessageSigner) {
+    this.signer = signer
+  }
+
+  setExpireMillisecond(time: number = DEFAULT_MESSAGE_EXPIRE) {
+    this.expireMillisecond = time
+  }
+
+  setExtensionConfig(config: ICallExtensionConfig = {}) {
+    this.extensionConfig = config
+  }
+
+  /**
+   * 校验扩展信息，不是对象或超出大小限制时抛出异常（error.code 为 CallMessageErrorCode）
+   * @param extension 扩展信息
+   */
+  checkExtension(extension: any) {
+    if (extension === undefined || extension === null) {
+      return
+    }
+    if (typeof extension != "object" || Array.isArray(extension)) {
+      throw genMessageError(
+        CallMessageErrorCode.invalidFormat,
+        "extension is not a json object",
+      )
+    }
+    const maxSize = this.extensionConfig.maxSize ?? DEFAULT_MAX_EXTENSION_SIZE
+    const size = encodeUint8Array(JSON.stringify(extension)).length
+    if (size > maxSize) {
+      throw genMessageError(
+        CallMessageErrorCode.extensionTooLarge,
+        `extension size:${size} exceeds the limit:${maxSize}`,
+      )
+    }
+  }
+
+  /**
+   * 生成可以打印到日志中的消息（隐藏扩展信息中的敏感字段）
+   * @param message 消息
+   */
+  redact(message: string) {
+    try {
+      const data = JSON.parse(message)
+      if (!data?.extension) {
+        return message
+      }
+      return JSON.stringify({
+        ...data,
+        extension: redactExtension(
+          data.extension,
+          this.extensionConfig.logKeys,
+        ),
+      })
+    } catch (e) {
+      return message
+    }
+  }
+
   getCallId() {
     return this.callId
   }
 
-  encode(message: Partial<ICallMessage>): string {
-    if (!this.callId) {
+  /**
+   * 是否是当前版本支持的 message_action（同一主版本号的新版本可能发送未知的 message_action）
+   * @param action message_action
+   */
+  isKnownAction(action: number) {
+    return CALL_ACTIONS.includes(action)
+  }
+
+  async encode(message: Partial<ICallMessage>): Promise<string> {
+    const callId = message.callId || this.callId
+    if (!callId) {
       const msg = "callId is not set"
-      logger.error(msg)
+      this.logger.error(msg)
       throw new Error(msg)
     }
-    const finMessage = {
+    const finMessage: Partial<ICallMessage> = {
       ...message,
-      callId: this.callId,
-      message_version: "1.0",
-      message_timestamp: new Date().getTime(),
+      callId,
+      message_version: CALL_MESSAGE_VERSION,
+      message_timestamp: this.clock.now(),
+    }
+    if (this.signer) {
+      finMessage.signature = await this.signer.sign(
+        genSignPayload(finMessage),
+        callId,
+      )
     }
     return JSON.stringify(finMessage)
   }
 
-  decode(message: string) {
-    return JSON.parse(message) as ICallMessage
+  /**
+   * 解析并校验消息
+   *
+   * 同一主版本号（例如 1.x）的消息可以兼容处理，忽略未知的字段，未知的 message_action 由调用方回执后忽略；
+   * 主版本号不同、格式错误、签名校验失败或签名消息过期会抛出异常（error.code 为 CallMessageErrorCode）
+   */
+  async decode(message: string): Promise<ICallMessage> {
+    let data: any
+    try {
+      data = JSON.parse(message)
+    } catch (e) {
+      throw genMessageError(
+        CallMessageErrorCode.invalidFormat,
+        "message is not a json string",
+      )
+    }
+    if (!data || typeof data != "object" || Array.isArray(data)) {
+      throw genMessageError(
+        CallMessageErrorCode.invalidFormat,
+        "message is not a json object",
+      )
+    }
+    const { message_version, message_action } = data
+    if (typeof message_version != "string" || !message_version) {
+      throw genMessageError(
+        CallMessageErrorCode.invalidFormat,
+        "message_version is invalid",
+      )
+    }
+    if (
+      getMajorVersion(message_version) !==
+      getMajorVersion(CALL_MESSAGE_VERSION)
+    ) {
+      throw genMessageError(
+        CallMessageErrorCode.unsupportedVersion,
+        `message_version:${message_version} is not supported, current version:${CALL_MESSAGE_VERSION}`,
+      )
+    }
+    if (!Number.isInteger(message_action)) {
+      throw genMessageError(
+        CallMessageErrorCode.invalidFormat,
+        "message_action is invalid",
+      )
+    }
+    this._validateFields(data)
+    await this._verify(data)
+    this._checkExpired(data)
+    return {
+      ...data,
+      fromUserId: Number(data.fromUserId),
+      remoteUserId: Number(data.remoteUserId ?? 0),
+      remoteUserIds: data.remoteUserIds?.map(Number),
+    }
+  }
+
+  //  ---------------------------- private ----------------------------
+
+  private async _verify(data: any) {
+    if (!this.signer) {
+      return
+    }
+    const { signature, callId } = data
+    let verified = false
+    if (typeof signature == "string" && signature) {
+      try {
+        verified = await this.signer.verify(
+          genSignPayload(data),
+          signature,
+          callId,
+        )
+      } catch (e: any) {
+        // e.g. keyProvider failed, the message can not be trusted
+        throw genMessageError(
+          CallMessageErrorCode.invalidSignature,
+          `message signature verify failed, callId:${callId},fromUserId:${data.fromUserId},error:${e?.message}`,
+        )
+      }
+    }
+    if (!verified) {
+      throw genMessageError(
+        CallMessageErrorCode.invalidSignature,
+        `message signature verify failed, callId:${callId},fromUserId:${data.fromUserId}`,
+      )
+    }
+  }
+
+  /**
+   * 签名的消息检查 message_timestamp，防止截获的消息被重放
+   */
+  private _checkExpired(data: any) {
+    if (!this.signer || !this.expireMillisecond) {
+      return
+    }
+    const { message_timestamp } = data
+    if (
+      typeof message_timestamp != "number" ||
+      Math.abs(this.clock.now() - message_timestamp) > this.expireMillisecond
+    ) {
+      throw genMessageError(
+        CallMessageErrorCode.expired,
+        `message is expired, message_timestamp:${message_timestamp},callId:${data.callId}`,
+      )
+    }
+  }
+
+  private _validateFields(data: any) {
+    const invalid = (field: string) => {
+      throw genMessageError(
+        CallMessageErrorCode.invalidFormat,
+        `${field} is invalid`,
+      )
+    }
+    if (typeof data.callId != "string" || !data.callId) {
+      invalid("callId")
+    }
+    if (!isUserId(data.fromUserId)) {
+      invalid("fromUserId")
+    }
+    if (data.remoteUserId !== undefined && !isUserId(data.remoteUserId)) {
+      invalid("remoteUserId")
+    }
+    if (
+      data.remoteUserIds !== undefined &&
+      (!Array.isArray(data.remoteUserIds) ||
+        !data.remoteUserIds.every(isUserId))
+    ) {
+      invalid("remoteUserIds")
+    }
+    if (
+      (data.message_action == CallAction.VideoCall ||
+        data.message_action == CallAction.AudioCall) &&
+      (typeof data.fromRoomId != "string" || !data.fromRoomId)
+    ) {
+      invalid("fromRoomId")
+    }
+    if (
+      data.message_action == CallAction.Ack &&
+      (typeof data.ackMessageId != "string" || !data.ackMessageId)
+    ) {
+      invalid("ackMessageId")
+    }
+    const optionalFields: [string, "string" | "number" | "boolean"][] = [
+      ["message_timestamp", "number"],
+      ["messageId", "string"],
+      ["rejectReason", "string"],
+      ["rejectByInternal", "number"],
+      ["cancelCallByInternal", "number"],
+      ["audioMuted", "boolean"],
+      ["videoMuted", "boolean"],
+      ["screenSharing", "boolean"],
+      ["callType", "number"],
+      ["hangupReason", "number"],
+    ]
+    optionalFields.forEach(([field, type]) => {
+      if (!isOptional(data[field], type)) {
+        invalid(field)
+      }
+    })
+    this.checkExtension(data.extension)
   }
 }
@@ -0,0 +1,96 @@
+import { ICallClock } from "../types"
+import { systemClock } from "../common"
+
+const MAX_RECEIVED_SIZE = 200
+
+interface IReceiptEntry {
+  acked: boolean
+  notify?: () => void
+}
+
+/**
+ * 消息回执
+ *
+ * 发送方记录等待回执的消息，接收方记录已处理过的消息（用于重发去重）
+ */
+export class CallReceipt {
+  clock: ICallClock
+  private _pending: Map<string, IReceiptEntry> = new Map()
+  private _received: string[] = []
+
+  constructor(clock: ICallClock = systemClock) {
+    this.clock = clock
+  }
+
+  /**
+   * 开始等待消息回执
+   * @param messageId 消息ID
+   */
+  track(messageId: string) {
+    this._pending.set(messageId, { acked: false })
+  }
+
+  /**
+   * 停止等待消息回执
+   * @param messageId 消息ID
+   */
+  release(messageId: string) {
+    this._pending.delete(messageId)
+  }
+
+  /**
+   * 等待消息回执
+   * @param messageId 消息ID
+   * @param timeout 等待时间（毫秒）
+   * @returns 是否在等待时间内收到回执
+   */
+  wait(messageId: string, timeout: number): Promise<boolean> {
+    const entry = this._pending.get(messageId)
+    if (!entry) {
+      return Promise.resolve(false)
+    }
+    if (entry.acked) {
+      return Promise.resolve(true)
+    }
+    return new Promise((resolve) => {
+      const timer = this.clock.setTimeout(() => {
+        entry.notify = undefined
+        resolve(false)
+      }, timeout)
+      entry.notify = () => {
+        this.clock.clearTimeout(timer)
+        entry.notify = undefined
+        resolve(true)
+      }
+    })
+  }
+
+  /**
+   * 收到消息回执
+   * @param messageId 消息ID
+   */
+  ack(messageId: string) {
+    const entry = this._pending.get(messageId)
+    if (!entry) {
+      return
+    }
+    entry.acked = true
+    entry.notify?.()
+  }
+
+  /**
+   * 记录收到的消息
+   * @param messageId 消息ID
+   * @returns 该消息是否已经收到过（重发）
+   */
+  receive(messageId: string) {
+    if (this._received.includes(messageId)) {
+      return true
+    }
+    this._received.push(messageId)
+    if (this._received.length > MAX_RECEIVED_SIZE) {
+      this._received.shift()
+    }
+    return false
+  }
+}
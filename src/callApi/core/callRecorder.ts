@@ -0,0 +1,181 @@
+import {
+  CallDirection,
+  CallOutcome,
+  CallStateReason,
+  ICallClock,
+  ICallRecord,
+  ICallStats,
+} from "../types"
+import { systemClock } from "../common"
+import { CallStatsAggregator } from "./callStats"
+
+type CallRecordStartInfo = Pick<
+  ICallRecord,
+  | "callId"
+  | "remoteUserId"
+  | "remoteUserIds"
+  | "direction"
+  | "callType"
+  | "callMode"
+>
+
+const genOutcome = (record: ICallRecord, reason: CallStateReason) => {
+  if (record.answerTime) {
+    return CallOutcome.completed
+  }
+  switch (reason) {
+    case CallStateReason.remoteCallBusy:
+      return CallOutcome.busy
+    case CallStateReason.localRejected:
+    case CallStateReason.remoteRejected:
+      return CallOutcome.rejected
+    case CallStateReason.localCancel:
+      return CallOutcome.cancelled
+    case CallStateReason.localHangup:
+      return record.direction == CallDirection.incoming
+        ? CallOutcome.rejected
+        : CallOutcome.cancelled
+    case CallStateReason.messageFailed:
+    case CallStateReason.joinRTCFailed:
+    case CallStateReason.rtmLost:
+    case CallStateReason.rtcLost:
+    case CallStateReason.remoteRtcLost:
+      return CallOutcome.failed
+  }
+  return record.direction == CallDirection.incoming
+    ? CallOutcome.missed
+    : CallOutcome.noAnswer
+}
+
+/**
+ * 通话记录生成
+ *
+ * 记录当前通话（以及被保持的通话）从开始呼叫到结束的信息
+ */
+export class CallRecorder {
+  /** 当前通话的记录 */
+  current?: ICallRecord
+  clock: ICallClock
+  private _held: Map<string, ICallRecord> = new Map()
+  private _stats: WeakMap<ICallRecord, CallStatsAggregator> = new WeakMap()
+
+  constructor(clock: ICallClock = systemClock) {
+    this.clock = clock
+  }
+
+  /**
+   * 创建通话记录（不作为当前通话）
+   * @param info 通话信息
+   */
+  create(info: CallRecordStartInfo): ICallRecord {
+    return {
+      ...info,
+      startTime: this.clock.now(),
+      answerTime: 0,
+      endTime: 0,
+      duration: 0,
+      endReason: CallStateReason.none,
+      outcome: CallOutcome.missed,
+    }
+  }
+
+  /**
+   * 开始记录当前通话
+   * @param info 通话信息
+   */
+  start(info: CallRecordStartInfo) {
+    this.current = this.create(info)
+  }
+
+  /**
+   * 当前通话接通
+   */
+  answer() {
+    if (this.current && !this.current.answerTime) {
+      this.current.answerTime = this.clock.now()
+    }
+  }
+
+  /**
+   * 汇总当前通话的质量统计
+   * @param stats 通话质量统计
+   */
+  addStats(stats: ICallStats) {
+    if (!this.current) {
+      return
+    }
+    let aggregator = this._stats.get(this.current)
+    if (!aggregator) {
+      aggregator = new CallStatsAggregator()
+      this._stats.set(this.current, aggregator)
+    }
+    aggregator.add(stats)
+  }
+
+  /**
+   * 结束当前通话的记录
+   * @param reason 结束通话的原因
+   * @returns 没有当前通话时返回 undefined
+   */
+  end(reason: CallStateReason) {
+    const record = this.current
+    this.current = undefined
+    return record && this.finish(record, reason)
+  }
+
+  /**
+   * 保持当前通话，恢复前不结束记录
+   */
+  hold() {
+    if (this.current) {
+      this._held.set(this.current.callId, this.current)
+      this.current = undefined
+    }
+  }
+
+  /**
+   * 恢复被保持的通话
+   * @param callId 通话ID
+   */
+  resume(callId: string) {
+    const record = this._held.get(callId)
+    if (record) {
+      this._held.delete(callId)
+      this.current = record
+    }
+  }
+
+  /**
+   * 结束被保持的通话的记录
+   * @param callId 通话ID
+   * @param reason 结束通话的原因
+   * @returns 不存在时返回 undefined
+   */
+  endHeld(callId: string, reason: CallStateReason) {
+    const record = this._held.get(callId)
+    this._held.delete(callId)
+    return record && this.finish(record, reason)
+  }
+
+  /**
+   * 结束通话记录
+   * @param record 通话记录
+   * @param reason 结束通话的原因
+   * @param outcome 通话结果，不传时根据 reason 和是否接通计算
+   */
+  finish(
+    record: ICallRecord,
+    reason: CallStateReason,
+    outcome?: CallOutcome,
+  ): ICallRecord {
+    const endTime = this.clock.now()
+    return {
+      ...record,
+      endTime,
+      duration: record.answerTime ? endTime - record.answerTime : 0,
+      endReason: reason,
+      outcome: outcome ?? genOutcome(record, reason),
+      statsSummary: this._stats.get(record)?.summary(),
+    }
+  }
+}
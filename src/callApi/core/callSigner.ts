@@ -0,0 +1,99 @@
+import { encodeUint8Array } from "../common"
+import { ICallMessageSigner } from "../types"
+
+/** HMAC消息签名配置 */
+export interface ICallHmacMessageSignerConfig {
+  /**
+   * 通话密钥提供者，每个通话第一次签名或校验时调用
+   *
+   * 通话密钥需要由业务服务端为每个通话生成，并且只下发给该通话的成员（服务端校验请求的用户），
+   * 不要在客户端生成或写死在代码中
+   * @param callId 通话ID
+   */
+  keyProvider: (callId: string) => Promise<string>
+}
+
+const MAX_KEY_CACHE_SIZE = 20
+
+const toHex = (buffer: ArrayBuffer) => {
+  return Array.from(new Uint8Array(buffer))
+    .map((item) => item.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+/**
+ * HMAC-SHA256 消息签名
+ *
+ * 每个通话使用业务服务端下发的独立密钥（keyProvider），签名为 HMAC(通话密钥, payload)，
+ * 不是该通话成员的用户无法伪造该通话的消息
+ */
+export class CallHmacMessageSigner implements ICallMessageSigner {
+  config: ICallHmacMessageSignerConfig
+  private _callKeys: Map<string, Promise<CryptoKey>> = new Map()
+
+  constructor(config: ICallHmacMessageSignerConfig) {
+    this.config = config
+  }
+
+  async sign(payload: string, callId: string) {
+    const key = await this._getCallKey(callId)
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      key,
+      encodeUint8Array(payload),
+    )
+    return toHex(signature)
+  }
+
+  async verify(payload: string, signature: string, callId: string) {
+    const expected = await this.sign(payload, callId)
+    if (expected.length !== signature.length) {
+      return false
+    }
+    // constant time compare
+    let diff = 0
+    for (let i = 0; i < expected.length; i++) {
+      diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i)
+    }
+    return diff === 0
+  }
+
+  //  ---------------------------- private ----------------------------
+
+  private async _importKey(raw: BufferSource) {
+    return crypto.subtle.importKey(
+      "raw",
+      raw,
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    )
+  }
+
+  private _getCallKey(callId: string) {
+    let key = this._callKeys.get(callId)
+    if (key) {
+      return key
+    }
+    // cache the promise, concurrent messages of the same call request the key only once
+    key = this._requestCallKey(callId)
+    this._callKeys.set(callId, key)
+    if (this._callKeys.size > MAX_KEY_CACHE_SIZE) {
+      const first = this._callKeys.keys().next().value!
+      this._callKeys.delete(first)
+    }
+    key.catch(() => {
+      // request again next time
+      this._callKeys.delete(callId)
+    })
+    return key
+  }
+
+  private async _requestCallKey(callId: string) {
+    const raw = await this.config.keyProvider(callId)
+    if (!raw) {
+      throw new Error(`keyProvider return empty key, callId:${callId}`)
+    }
+    return this._importKey(encodeUint8Array(raw))
+  }
+}
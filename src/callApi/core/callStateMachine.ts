@@ -0,0 +1,162 @@
+import {
+  CallRole,
+  CallStateReason,
+  CallStateType,
+  ICallStateTransition,
+} from "../types"
+
+const { idle, prepared, calling, connecting, connected, failed } =
+  CallStateType
+
+/**
+ * 呼叫状态流转表
+ *
+ * 每条记录表示：当前状态在 from 中时，reason 触发状态变更为 to
+ * 不在表中的流转都是非法的
+ */
+export const CALL_STATE_TRANSITIONS: ICallStateTransition[] = [
+  // prepareForCall
+  { reason: CallStateReason.none, from: [idle, prepared, failed], to: prepared },
+  // call start
+  { reason: CallStateReason.localVideoCall, from: [prepared], to: calling },
+  { reason: CallStateReason.localAudioCall, from: [prepared], to: calling },
+  { reason: CallStateReason.remoteVideoCall, from: [prepared], to: calling },
+  { reason: CallStateReason.remoteAudioCall, from: [prepared], to: calling },
+  // answer
+  {
+    reason: CallStateReason.localAccepted,
+    from: [calling],
+    to: connecting,
+    role: CallRole.callee,
+  },
+  {
+    reason: CallStateReason.remoteAccepted,
+    from: [calling],
+    to: connecting,
+    role: CallRole.caller,
+  },
+  {
+    reason: CallStateReason.recvRemoteFirstFrame,
+    from: [connecting],
+    to: connected,
+  },
+  // end before connected
+  {
+    reason: CallStateReason.localCancel,
+    from: [calling, connecting],
+    to: prepared,
+    role: CallRole.caller,
+  },
+  {
+    reason: CallStateReason.remoteCancel,
+    from: [calling, connecting],
+    to: prepared,
+  },
+  // the cancel crosses with the accept, the callee may have received the first frame
+  {
+    reason: CallStateReason.remoteCancel,
+    from: [connected],
+    to: prepared,
+    role: CallRole.callee,
+  },
+  {
+    reason: CallStateReason.localRejected,
+    from: [calling],
+    to: prepared,
+    role: CallRole.callee,
+  },
+  {
+    reason: CallStateReason.remoteRejected,
+    from: [calling, connecting],
+    to: prepared,
+  },
+  {
+    reason: CallStateReason.remoteCallBusy,
+    from: [calling, connecting],
+    to: prepared,
+  },
+  {
+    reason: CallStateReason.callingTimeout,
+    from: [calling, connecting],
+    to: prepared,
+  },
+  { reason: CallStateReason.messageFailed, from: [calling], to: prepared },
+  // end
+  {
+    reason: CallStateReason.localHangup,
+    from: [calling, connecting, connected],
+    to: prepared,
+  },
+  {
+    reason: CallStateReason.remoteHangup,
+    from: [calling, connecting, connected],
+    to: prepared,
+  },
+  {
+    reason: CallStateReason.rtmLost,
+    from: [calling, connecting, connected],
+    to: prepared,
+  },
+  {
+    reason: CallStateReason.rtcLost,
+    from: [calling, connecting, connected],
+    to: prepared,
+  },
+  {
+    reason: CallStateReason.maxDurationReached,
+    from: [connected],
+    to: prepared,
+  },
+  {
+    reason: CallStateReason.remoteRtcLost,
+    from: [connecting, connected],
+    to: prepared,
+  },
+  // hold / resume
+  { reason: CallStateReason.localHeld, from: [connected], to: prepared },
+  { reason: CallStateReason.localResumed, from: [prepared], to: connecting },
+]
+
+/**
+ * 呼叫状态机
+ */
+export class CallStateMachine {
+  state: CallStateType = CallStateType.idle
+  /** 本次通话中的角色 */
+  role?: CallRole
+
+  /**
+   * 查找当前状态下 reason 对应的状态流转
+   * @param reason 状态变更的原因
+   * @returns 非法流转时返回 undefined
+   */
+  find(reason: CallStateReason) {
+    return CALL_STATE_TRANSITIONS.find(
+      (item) =>
+        item.reason == reason &&
+        item.from.includes(this.state) &&
+        (item.role === undefined || item.role === this.role),
+    )
+  }
+
+  /**
+   * 当前状态下 reason 是否可以触发状态变更
+   * @param reason 状态变更的原因
+   */
+  can(reason: CallStateReason) {
+    return !!this.find(reason)
+  }
+
+  /**
+   * 执行状态流转
+   * @param reason 状态变更的原因
+   * @returns 非法流转时返回 undefined
+   */
+  transition(reason: CallStateReason) {
+    const transition = this.find(reason)
+    if (transition) {
+      this.state = transition.to
+    }
+    return transition
+  }
+}
@@ -0,0 +1,156 @@
+import type { NetworkQuality, UID } from "agora-rtc-sdk-ng/esm"
+import {
+  CallType,
+  ICallClock,
+  ICallMediaEngine,
+  ICallRemoteStats,
+  ICallStats,
+  ICallStatsSummary,
+  ILocalTracks,
+} from "../types"
+import { systemClock } from "../common"
+
+const average = (sum: number, count: number) => {
+  return count ? Math.round((sum / count) * 100) / 100 : 0
+}
+
+/**
+ * 通话质量统计
+ *
+ * 根据媒体引擎的统计数据生成通话质量快照，并汇总每次快照
+ */
+export class CallStats {
+  clock: ICallClock
+  /** 最近一次的网络质量（媒体引擎 network-quality 事件） */
+  networkQuality: NetworkQuality = {
+    uplinkNetworkQuality: 0,
+    downlinkNetworkQuality: 0,
+  }
+
+  constructor(clock: ICallClock = systemClock) {
+    this.clock = clock
+  }
+
+  /**
+   * 生成通话质量快照
+   * @param engine 媒体引擎
+   * @param callType 呼叫类型
+   * @param localTracks 本地轨道
+   * @param isRemoteUser 是否是本次通话的远端用户
+   */
+  collect(
+    engine: ICallMediaEngine,
+    callType: CallType,
+    localTracks: ILocalTracks,
+    isRemoteUser: (uid: UID) => boolean,
+  ): ICallStats {
+    const rtcStats = engine.getRTCStats()
+    const localAudioStats = engine.getLocalAudioStats()
+    const localVideoStats =
+      callType == CallType.video ? engine.getLocalVideoStats() : undefined
+    const remoteAudioStats = engine.getRemoteAudioStats()
+    const remoteVideoStats = engine.getRemoteVideoStats()
+    const remoteUsers: ICallRemoteStats[] = engine.remoteUsers
+      .filter((user) => isRemoteUser(user.uid))
+      .map((user) => {
+        const audio = remoteAudioStats[user.uid]
+        const video = remoteVideoStats[user.uid]
+        return {
+          userId: Number(user.uid),
+          receiveBitrate:
+            (audio?.receiveBitrate ?? 0) + (video?.receiveBitrate ?? 0),
+          packetLossRate: Math.max(
+            audio?.packetLossRate ?? 0,
+            video?.packetLossRate ?? 0,
+          ),
+          end2EndDelay: Math.max(
+            audio?.end2EndDelay ?? 0,
+            video?.end2EndDelay ?? 0,
+          ),
+          width: video?.receiveResolutionWidth ?? 0,
+          height: video?.receiveResolutionHeight ?? 0,
+          frameRate: video?.receiveFrameRate ?? 0,
+          audioLevel: user.audioTrack?.getVolumeLevel() ?? 0,
+        }
+      })
+    return {
+      timestamp: this.clock.now(),
+      rtt: rtcStats.RTT,
+      uplinkNetworkQuality: this.networkQuality.uplinkNetworkQuality,
+      downlinkNetworkQuality: this.networkQuality.downlinkNetworkQuality,
+      sendBitrate: rtcStats.SendBitrate,
+      receiveBitrate: rtcStats.RecvBitrate,
+      sendPacketLossRate:
+        localVideoStats?.currentPacketLossRate ??
+        localAudioStats.currentPacketLossRate ??
+        0,
+      receivePacketLossRate: Math.max(
+        0,
+        ...remoteUsers.map((item) => item.packetLossRate),
+      ),
+      sendWidth: localVideoStats?.sendResolutionWidth ?? 0,
+      sendHeight: localVideoStats?.sendResolutionHeight ?? 0,
+      sendFrameRate: localVideoStats?.sendFrameRate ?? 0,
+      localAudioLevel: localTracks.audioTrack?.getVolumeLevel() ?? 0,
+      remoteUsers,
+    }
+  }
+
+  reset() {
+    this.networkQuality = {
+      uplinkNetworkQuality: 0,
+      downlinkNetworkQuality: 0,
+    }
+  }
+}
+
+/**
+ * 通话质量统计汇总
+ */
+export class CallStatsAggregator {
+  private _samples = 0
+  private _rttSum = 0
+  private _maxRtt = 0
+  private _sendBitrateSum = 0
+  private _receiveBitrateSum = 0
+  private _sendPacketLossRateSum = 0
+  private _receivePacketLossRateSum = 0
+  private _worstUplinkNetworkQuality = 0
+  private _worstDownlinkNetworkQuality = 0
+
+  add(stats: ICallStats) {
+    this._samples++
+    this._rttSum += stats.rtt
+    this._maxRtt = Math.max(this._maxRtt, stats.rtt)
+    this._sendBitrateSum += stats.sendBitrate
+    this._receiveBitrateSum += stats.receiveBitrate
+    this._sendPacketLossRateSum += stats.sendPacketLossRate
+    this._receivePacketLossRateSum += stats.receivePacketLossRate
+    this._worstUplinkNetworkQuality = Math.max(
+      this._worstUplinkNetworkQuality,
+      stats.uplinkNetworkQuality,
+    )
+    this._worstDownlinkNetworkQuality = Math.max(
+      this._worstDownlinkNetworkQuality,
+      stats.downlinkNetworkQuality,
+    )
+  }
+
+  summary(): ICallStatsSummary {
+    const samples = this._samples
+    return {
+      samples,
+      avgRtt: average(this._rttSum, samples),
+      maxRtt: this._maxRtt,
+      avgSendBitrate: average(this._sendBitrateSum, samples),
+      avgReceiveBitrate: average(this._receiveBitrateSum, samples),
+      avgSendPacketLossRate: average(this._sendPacketLossRateSum, samples),
+      avgReceivePacketLossRate: average(
+        this._receivePacketLossRateSum,
+        samples,
+      ),
+      worstUplinkNetworkQuality: this._worstUplinkNetworkQuality,
+      worstDownlinkNetworkQuality: this._worstDownlinkNetworkQuality,
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  CallTraceType,
+  ICallClock,
+  ICallTrace,
+  ICallTraceConfig,
+  ICallTraceEntry,
+} from "../types"
+import { systemClock } from "../common"
+
+const DEFAULT_MAX_CALLS = 10
+const DEFAULT_MAX_ENTRIES = 1000
+
+/**
+ * 合并多个用户的通话追踪（例如主叫和被叫），按时间排序
+ * @param traces 通话追踪
+ */
+export const mergeCallTraces = (
+  ...traces: ICallTrace[]
+): (ICallTraceEntry & { userId: number })[] => {
+  return traces
+    .flatMap((trace) =>
+      trace.entries.map((entry) => ({ ...entry, userId: trace.userId })),
+    )
+    .sort((a, b) => a.timestamp - b.timestamp)
+}
+
+/**
+ * 通话追踪
+ *
+ * 按 callId 记录消息、呼叫事件、状态变更和 RTC 事件，只保留最近的几个通话
+ */
+export class CallTracer {
+  userId: number
+  config: ICallTraceConfig
+  clock: ICallClock
+  private _traces: Map<string, ICallTrace> = new Map()
+
+  constructor(
+    userId: number,
+    config: ICallTraceConfig = {},
+    clock: ICallClock = systemClock,
+  ) {
+    this.userId = userId
+    this.config = config
+    this.clock = clock
+  }
+
+  /**
+   * 添加追踪记录
+   * @param callId 通话ID，为空时忽略
+   * @param type 记录类型
+   * @param data 记录内容
+   */
+  add(callId: string, type: CallTraceType, data: Record<string, any>) {
+    const maxCalls = this.config.maxCalls ?? DEFAULT_MAX_CALLS
+    if (!callId || !maxCalls) {
+      return
+    }
+    let trace = this._traces.get(callId)
+    if (!trace) {
+      trace = { callId, userId: this.userId, entries: [] }
+      this._traces.set(callId, trace)
+      while (this._traces.size > maxCalls) {
+        const first = this._traces.keys().next().value!
+        this._traces.delete(first)
+      }
+    }
+    trace.entries.push({ type, timestamp: this.clock.now(), data })
+    const maxEntries = this.config.maxEntries ?? DEFAULT_MAX_ENTRIES
+    if (trace.entries.length > maxEntries) {
+      trace.entries.splice(0, trace.entries.length - maxEntries)
+    }
+  }
+
+  /**
+   * 获取通话追踪
+   * @param callId 通话ID
+   * @returns 不存在时返回 undefined
+   */
+  get(callId: string): ICallTrace | undefined {
+    const trace = this._traces.get(callId)
+    return trace && { ...trace, entries: [...trace.entries] }
+  }
+
+  /**
+   * 获取所有保留的通话追踪，按开始追踪的时间排序
+   */
+  list(): ICallTrace[] {
+    return Array.from(this._traces.keys()).map((callId) => this.get(callId)!)
+  }
+
+  clear() {
+    this._traces.clear()
+  }
+}
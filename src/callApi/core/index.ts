@@ -1 +1,4 @@
 export * from "./callApi"
+export * from "./callStateMachine"
+export * from "./callSigner"
+export * from "./callTracer"
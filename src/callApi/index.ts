@@ -1,3 +1,8 @@
 export * from "./core"
 export * from "./messageManager"
+export * from "./recordStore"
+export * from "./logSink"
+export * from "./mediaEngine"
+export * from "./simulation"
+export * from "./common/clock"
 export * from "./types"
@@ -0,0 +1,15 @@
+import { ICallLogEntry, LogLevel } from "../types"
+
+/**
+ * 日志输出目标
+ */
+export abstract class CallLogSink {
+  /** 输出的最低日志等级，不设置时使用 Logger 的日志等级 */
+  level?: LogLevel
+
+  /**
+   * 输出一条日志
+   * @param entry 日志
+   */
+  abstract write(entry: ICallLogEntry): void
+}
@@ -0,0 +1,19 @@
+import { ICallLogEntry, LogLevel } from "../types"
+import { CallLogSink } from "./base"
+
+/**
+ * 输出到自定义回调（例如上报到业务服务端）
+ */
+export class CallCallbackLogSink extends CallLogSink {
+  callback: (entry: ICallLogEntry) => void
+
+  constructor(callback: (entry: ICallLogEntry) => void, level?: LogLevel) {
+    super()
+    this.callback = callback
+    this.level = level
+  }
+
+  write(entry: ICallLogEntry) {
+    this.callback(entry)
+  }
+}
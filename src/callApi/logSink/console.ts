@@ -0,0 +1,27 @@
+import { ICallLogEntry, LogLevel } from "../types"
+import { CallLogSink } from "./base"
+
+/**
+ * 输出到浏览器控制台
+ */
+export class CallConsoleLogSink extends CallLogSink {
+  constructor(level?: LogLevel) {
+    super()
+    this.level = level
+  }
+
+  write(entry: ICallLogEntry) {
+    const { timestamp, prefix, callId, message } = entry
+    const text = `${new Date(timestamp).toISOString()} [${prefix}]${callId ? `[${callId}]` : ""} ${message}`
+    switch (entry.level) {
+      case LogLevel.DEBUG:
+        console.debug(text)
+        break
+      case LogLevel.WARN:
+        console.warn(text)
+        break
+      default:
+        console.error(text)
+    }
+  }
+}
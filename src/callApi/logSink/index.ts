@@ -0,0 +1,5 @@
+export * from "./base.ts"
+export * from "./report.ts"
+export * from "./console.ts"
+export * from "./callback.ts"
+export * from "./memory.ts"
@@ -0,0 +1,52 @@
+import { ICallLogEntry, LogLevel } from "../types"
+import { CallLogSink } from "./base"
+
+/** 内存日志缓冲配置 */
+export interface ICallMemoryLogSinkConfig {
+  /** 最多保存的条数，超出后覆盖最早的日志，默认 1000 */
+  maxEntries?: number
+  /** 输出的最低日志等级，默认 LogLevel.DEBUG */
+  level?: LogLevel
+}
+
+const DEFAULT_MAX_ENTRIES = 1000
+
+/**
+ * 内存日志缓冲（环形缓冲区，只保留最近的日志）
+ */
+export class CallMemoryLogSink extends CallLogSink {
+  config: ICallMemoryLogSinkConfig
+  private _entries: ICallLogEntry[] = []
+  private _next = 0
+
+  constructor(config: ICallMemoryLogSinkConfig = {}) {
+    super()
+    this.config = config
+    this.level = config.level ?? LogLevel.DEBUG
+  }
+
+  write(entry: ICallLogEntry) {
+    const maxEntries = this.config.maxEntries ?? DEFAULT_MAX_ENTRIES
+    if (this._entries.length < maxEntries) {
+      this._entries.push(entry)
+      return
+    }
+    this._entries[this._next] = entry
+    this._next = (this._next + 1) % maxEntries
+  }
+
+  /**
+   * 获取缓冲中的日志，按时间顺序返回
+   */
+  entries(): ICallLogEntry[] {
+    return [
+      ...this._entries.slice(this._next),
+      ...this._entries.slice(0, this._next),
+    ]
+  }
+
+  clear() {
+    this._entries = []
+    this._next = 0
+  }
+}
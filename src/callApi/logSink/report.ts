@@ -0,0 +1,65 @@
+import type { logger as ReportLogger } from "@agora-js/report"
+import { ICallLogEntry, LogLevel } from "../types"
+import { CallLogSink } from "./base"
+
+// tip: 由于 rtc sdk log 一版是设置 setLogLevel(1) 为 info 级别，
+// 所以这里的 logger  debug 级别 对应 rtc sdk 的 info 级别
+
+let rtcLogger: typeof ReportLogger | undefined
+let loadPromise: Promise<void> | undefined
+
+/**
+ * 按需加载 rtc sdk 的日志模块（依赖浏览器环境，在 Node 中加载失败时丢弃日志）
+ */
+const loadReportLogger = () => {
+  if (!loadPromise) {
+    loadPromise = import("@agora-js/report")
+      .then((report) => {
+        rtcLogger = report.logger
+      })
+      .catch(() => {})
+  }
+  return loadPromise
+}
+
+/**
+ * 输出到 rtc sdk 日志（随 rtc sdk 日志上传）
+ */
+export class CallReportLogSink extends CallLogSink {
+  private _pending: ICallLogEntry[] = []
+
+  write(entry: ICallLogEntry) {
+    if (rtcLogger) {
+      this._write(rtcLogger, entry)
+      return
+    }
+    // keep the order of the logs written before loaded
+    this._pending.push(entry)
+    if (this._pending.length > 1) {
+      return
+    }
+    loadReportLogger().then(() => {
+      const pending = this._pending
+      this._pending = []
+      if (rtcLogger) {
+        pending.forEach((item) => this._write(rtcLogger!, item))
+      }
+    })
+  }
+
+  //  ---------------------------- private ----------------------------
+
+  private _write(logger: typeof ReportLogger, entry: ICallLogEntry) {
+    const prefix = entry.prefix ? ` [${entry.prefix}]` : ""
+    switch (entry.level) {
+      case LogLevel.DEBUG:
+        logger.info(prefix, entry.message)
+        break
+      case LogLevel.WARN:
+        logger.warn(prefix, entry.message)
+        break
+      default:
+        logger.error(prefix, entry.message)
+    }
+  }
+}
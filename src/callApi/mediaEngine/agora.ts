@@ -0,0 +1,241 @@
+import type {
+  CameraVideoTrackInitConfig,
+  DeviceInfo,
+  IAgoraRTCClient,
+  IAgoraRTCRemoteUser,
+  ILocalTrack,
+  MicrophoneAudioTrackInitConfig,
+  ScreenVideoTrackInitConfig,
+} from "agora-rtc-sdk-ng/esm"
+import { ICallMediaRemoteUser } from "../types"
+import { CallMediaEngine } from "./base"
+
+type AgoraRTCSDK = typeof import("agora-rtc-sdk-ng/esm")
+
+/** Agora 媒体引擎配置 */
+export interface ICallAgoraMediaEngineConfig {
+  /** rtc client 实例，默认创建 { mode: "rtc", codec: "vp9" } 的 client */
+  rtcClient?: IAgoraRTCClient
+}
+
+let sdkPromise: Promise<AgoraRTCSDK> | undefined
+
+/**
+ * 按需加载 rtc sdk（sdk 依赖浏览器环境，在 Node 中只要不使用 CallAgoraMediaEngine 就不会加载）
+ */
+const loadSDK = () => {
+  if (!sdkPromise) {
+    sdkPromise = import("agora-rtc-sdk-ng/esm").then((sdk) => {
+      sdk.enableLogUpload()
+      sdk.setLogLevel(1)
+      sdk.setParameter("ENABLE_INSTANT_VIDEO", true)
+      return sdk
+    })
+  }
+  return sdkPromise
+}
+
+/**
+ * Agora 媒体引擎（默认的媒体引擎，基于 agora-rtc-sdk-ng）
+ *
+ * sdk 的设备事件是全局的，每个引擎都会监听，不再使用时需要调用 release 移除监听
+ */
+export class CallAgoraMediaEngine extends CallMediaEngine {
+  config: ICallAgoraMediaEngineConfig
+  /** rtc client 实例（未传入时在 sdk 加载完成后创建，之前为 undefined，可以使用 getClient 等待创建） */
+  client?: IAgoraRTCClient
+  private _ready: Promise<AgoraRTCSDK>
+  private _clientListeners: [string, (...args: any[]) => void][] = []
+  private _deviceListeners = {
+    "camera-changed": (info: DeviceInfo) => this.emit("camera-changed", info),
+    "microphone-changed": (info: DeviceInfo) =>
+      this.emit("microphone-changed", info),
+    "playback-device-changed": (info: DeviceInfo) =>
+      this.emit("playback-device-changed", info),
+  }
+
+  get connectionState() {
+    return this.client?.connectionState ?? "DISCONNECTED"
+  }
+
+  get remoteUsers(): ICallMediaRemoteUser[] {
+    return this.client?.remoteUsers ?? []
+  }
+
+  constructor(config: ICallAgoraMediaEngineConfig = {}) {
+    super()
+    this.config = config
+    if (config.rtcClient) {
+      this.client = config.rtcClient
+      this._listenClientEvents(config.rtcClient)
+    }
+    this._ready = loadSDK().then((sdk) => {
+      if (!this.client) {
+        this.client = sdk.createClient({ mode: "rtc", codec: "vp9" })
+        this._listenClientEvents(this.client)
+      }
+      const listeners = this._deviceListeners
+      sdk.AgoraRTC.on("camera-changed", listeners["camera-changed"])
+      sdk.AgoraRTC.on("microphone-changed", listeners["microphone-changed"])
+      sdk.AgoraRTC.on(
+        "playback-device-changed",
+        listeners["playback-device-changed"],
+      )
+      return sdk
+    })
+    // the error is thrown again when the engine is used
+    this._ready.catch(() => {})
+  }
+
+  /**
+   * 获取 rtc client（未传入 rtcClient 时等待 sdk 加载完成后创建）
+   */
+  async getClient() {
+    await this._ready
+    return this.client!
+  }
+
+  /**
+   * 释放引擎：移除 sdk 的设备事件监听、client 的事件监听和引擎的所有事件监听（不会离开频道）
+   */
+  release() {
+    super.release()
+    this._ready
+      .then((sdk) => {
+        const listeners = this._deviceListeners
+        sdk.AgoraRTC.off("camera-changed", listeners["camera-changed"])
+        sdk.AgoraRTC.off("microphone-changed", listeners["microphone-changed"])
+        sdk.AgoraRTC.off(
+          "playback-device-changed",
+          listeners["playback-device-changed"],
+        )
+        this._clientListeners.forEach(([evt, listener]) =>
+          this.client?.off(evt, listener),
+        )
+        this._clientListeners = []
+      })
+      .catch(() => {})
+  }
+
+  async join(appId: string, roomId: string, token: string, userId: number) {
+    const client = await this.getClient()
+    await client.join(appId, roomId, token, userId)
+  }
+
+  async leave() {
+    const client = await this.getClient()
+    await client.leave()
+  }
+
+  async renewToken(token: string) {
+    const client = await this.getClient()
+    await client.renewToken(token)
+  }
+
+  async publish(tracks: ILocalTrack | ILocalTrack[]) {
+    const client = await this.getClient()
+    await client.publish(tracks)
+  }
+
+  async unpublish(tracks: ILocalTrack | ILocalTrack[]) {
+    const client = await this.getClient()
+    await client.unpublish(tracks)
+  }
+
+  async subscribe(user: ICallMediaRemoteUser, mediaType: "audio" | "video") {
+    const client = await this.getClient()
+    await client.subscribe(user as IAgoraRTCRemoteUser, mediaType)
+  }
+
+  async unsubscribe(user: ICallMediaRemoteUser, mediaType: "audio" | "video") {
+    const client = await this.getClient()
+    await client.unsubscribe(user as IAgoraRTCRemoteUser, mediaType)
+  }
+
+  async createMicrophoneAudioTrack(config?: MicrophoneAudioTrackInitConfig) {
+    const sdk = await this._ready
+    return sdk.createMicrophoneAudioTrack(config)
+  }
+
+  async createCameraVideoTrack(config?: CameraVideoTrackInitConfig) {
+    const sdk = await this._ready
+    return sdk.createCameraVideoTrack(config)
+  }
+
+  async createMicrophoneAndCameraTracks(
+    audioConfig?: MicrophoneAudioTrackInitConfig,
+    videoConfig?: CameraVideoTrackInitConfig,
+  ) {
+    // request the camera and microphone permissions at once
+    const sdk = await this._ready
+    return sdk.createMicrophoneAndCameraTracks(audioConfig, videoConfig)
+  }
+
+  async createScreenVideoTrack(config: ScreenVideoTrackInitConfig) {
+    const sdk = await this._ready
+    return sdk.createScreenVideoTrack(config, "disable")
+  }
+
+  async getDevices() {
+    const sdk = await this._ready
+    return sdk.getDevices()
+  }
+
+  async getCameras(skipPermissionCheck?: boolean) {
+    const sdk = await this._ready
+    return sdk.getCameras(skipPermissionCheck)
+  }
+
+  async getMicrophones(skipPermissionCheck?: boolean) {
+    const sdk = await this._ready
+    return sdk.getMicrophones(skipPermissionCheck)
+  }
+
+  async getPlaybackDevices(skipPermissionCheck?: boolean) {
+    const sdk = await this._ready
+    return sdk.getPlaybackDevices(skipPermissionCheck)
+  }
+
+  // stats are collected only after joined, the client must exist
+
+  getRTCStats() {
+    return this.client!.getRTCStats()
+  }
+
+  getLocalAudioStats() {
+    return this.client!.getLocalAudioStats()
+  }
+
+  getLocalVideoStats() {
+    return this.client!.getLocalVideoStats()
+  }
+
+  getRemoteAudioStats() {
+    return this.client!.getRemoteAudioStats()
+  }
+
+  getRemoteVideoStats() {
+    return this.client!.getRemoteVideoStats()
+  }
+
+  //  ---------------------------- private ----------------------------
+
+  private _listenClientEvents(client: IAgoraRTCClient) {
+    // forward the client events with the same name, removed in release
+    const events = [
+      "connection-state-change",
+      "user-joined",
+      "user-left",
+      "user-published",
+      "user-unpublished",
+      "network-quality",
+      "token-privilege-will-expire",
+      "token-privilege-did-expire",
+    ] as const
+    events.forEach((evt) => {
+      const listener = (...args: any[]) => this.emit(evt, ...args)
+      client.on(evt, listener)
+      this._clientListeners.push([evt, listener])
+    })
+  }
+}
@@ -0,0 +1,90 @@
+import type {
+  AgoraRTCStats,
+  CameraVideoTrackInitConfig,
+  ConnectionState,
+  ICameraVideoTrack,
+  ILocalTrack,
+  ILocalVideoTrack,
+  IMicrophoneAudioTrack,
+  LocalAudioTrackStats,
+  LocalVideoTrackStats,
+  MicrophoneAudioTrackInitConfig,
+  RemoteAudioTrackStats,
+  RemoteVideoTrackStats,
+  ScreenVideoTrackInitConfig,
+} from "agora-rtc-sdk-ng/esm"
+import { AGEventEmitter } from "../common"
+import {
+  CallMediaEngineEvents,
+  ICallMediaEngine,
+  ICallMediaRemoteUser,
+} from "../types"
+
+/**
+ * 媒体引擎（接口说明见 ICallMediaEngine）
+ */
+export abstract class CallMediaEngine
+  extends AGEventEmitter<CallMediaEngineEvents>
+  implements ICallMediaEngine
+{
+  abstract get connectionState(): ConnectionState
+  abstract get remoteUsers(): ICallMediaRemoteUser[]
+
+  abstract join(
+    appId: string,
+    roomId: string,
+    token: string,
+    userId: number,
+  ): Promise<void>
+  abstract leave(): Promise<void>
+  abstract renewToken(token: string): Promise<void>
+  abstract publish(tracks: ILocalTrack | ILocalTrack[]): Promise<void>
+  abstract unpublish(tracks: ILocalTrack | ILocalTrack[]): Promise<void>
+  abstract subscribe(
+    user: ICallMediaRemoteUser,
+    mediaType: "audio" | "video",
+  ): Promise<void>
+  abstract unsubscribe(
+    user: ICallMediaRemoteUser,
+    mediaType: "audio" | "video",
+  ): Promise<void>
+
+  abstract createMicrophoneAudioTrack(
+    config?: MicrophoneAudioTrackInitConfig,
+  ): Promise<IMicrophoneAudioTrack>
+  abstract createCameraVideoTrack(
+    config?: CameraVideoTrackInitConfig,
+  ): Promise<ICameraVideoTrack>
+  abstract createScreenVideoTrack(
+    config: ScreenVideoTrackInitConfig,
+  ): Promise<ILocalVideoTrack>
+
+  async createMicrophoneAndCameraTracks(
+    audioConfig?: MicrophoneAudioTrackInitConfig,
+    videoConfig?: CameraVideoTrackInitConfig,
+  ): Promise<[IMicrophoneAudioTrack, ICameraVideoTrack]> {
+    return Promise.all([
+      this.createMicrophoneAudioTrack(audioConfig),
+      this.createCameraVideoTrack(videoConfig),
+    ])
+  }
+
+  abstract getDevices(): Promise<MediaDeviceInfo[]>
+  abstract getCameras(skipPermissionCheck?: boolean): Promise<MediaDeviceInfo[]>
+  abstract getMicrophones(
+    skipPermissionCheck?: boolean,
+  ): Promise<MediaDeviceInfo[]>
+  abstract getPlaybackDevices(
+    skipPermissionCheck?: boolean,
+  ): Promise<MediaDeviceInfo[]>
+
+  abstract getRTCStats(): AgoraRTCStats
+  abstract getLocalAudioStats(): LocalAudioTrackStats
+  abstract getLocalVideoStats(): LocalVideoTrackStats
+  abstract getRemoteAudioStats(): { [uid: string]: RemoteAudioTrackStats }
+  abstract getRemoteVideoStats(): { [uid: string]: RemoteVideoTrackStats }
+
+  release() {
+    this.removeAllEventListeners()
+  }
+}
@@ -0,0 +1,614 @@
+import type {
+  AgoraRTCStats,
+  ConnectionState,
+  ICameraVideoTrack,
+  ILocalTrack,
+  IRemoteAudioTrack,
+  IRemoteVideoTrack,
+  ILocalVideoTrack,
+  IMicrophoneAudioTrack,
+  LocalAudioTrackStats,
+  LocalVideoTrackStats,
+} from "agora-rtc-sdk-ng/esm"
+import { AGEventEmitter, systemClock } from "../common"
+import { ICallClock, ICallMediaRemoteUser } from "../types"
+import { CallMediaEngine } from "./base"
+
+type MediaType = "audio" | "video"
+
+/** 可以模拟失败的操作 */
+export type CallFakeMediaOperation =
+  | "join"
+  | "publish"
+  | "subscribe"
+  | "createTrack"
+
+/** 模拟媒体频道配置 */
+export interface ICallFakeMediaHubConfig {
+  /** 远端用户事件（加入、离开、发布、取消发布）的延迟（毫秒），默认 0 */
+  latency?: number
+  /** 订阅后触发首帧（first-frame-decoded）的延迟（毫秒），默认 0 */
+  firstFrameDelay?: number
+  /** 时钟，默认使用系统时钟 */
+  clock?: ICallClock
+}
+
+/** 模拟媒体引擎配置 */
+export interface ICallFakeMediaEngineConfig {
+  /** 共享的模拟媒体频道 */
+  hub: CallFakeMediaHub
+  /** getDevices 等返回的设备，默认各有一个摄像头、麦克风和扬声器 */
+  devices?: MediaDeviceInfo[]
+}
+
+interface IFakeMember {
+  uid: number
+  /** 模拟的远端用户（hub.addUser）没有 engine */
+  engine?: CallFakeMediaEngine
+  published: Set<MediaType>
+}
+
+const genFakeDevice = (
+  kind: MediaDeviceKind,
+  deviceId: string,
+  label: string,
+): MediaDeviceInfo => {
+  const device = { deviceId, kind, label, groupId: "fake" }
+  return { ...device, toJSON: () => device }
+}
+
+const DEFAULT_DEVICES = [
+  genFakeDevice("videoinput", "fake-camera", "Fake Camera"),
+  genFakeDevice("audioinput", "fake-microphone", "Fake Microphone"),
+  genFakeDevice("audiooutput", "fake-speaker", "Fake Speaker"),
+]
+
+let trackCount = 0
+
+/**
+ * 模拟的音视频轨道，只实现 CallApi 使用到的方法
+ */
+class CallFakeTrack extends AGEventEmitter<Record<string, any>> {
+  trackMediaType: MediaType
+  isPlaying = false
+  muted = false
+  enabled = true
+  closed = false
+  deviceId: string
+  private _trackId = `fake-track-${++trackCount}`
+
+  constructor(trackMediaType: MediaType, deviceId: string = "") {
+    super()
+    this.trackMediaType = trackMediaType
+    this.deviceId = deviceId
+  }
+
+  getTrackId() {
+    return this._trackId
+  }
+
+  play() {
+    this.isPlaying = true
+  }
+
+  stop() {
+    this.isPlaying = false
+  }
+
+  close() {
+    this.stop()
+    this.closed = true
+  }
+
+  async setMuted(muted: boolean) {
+    this.muted = muted
+  }
+
+  async setEnabled(enabled: boolean) {
+    this.enabled = enabled
+  }
+
+  async setDevice(device: string | { facingMode: string }) {
+    this.deviceId = typeof device == "string" ? device : device.facingMode
+  }
+
+  async setPlaybackDevice(deviceId: string) {}
+
+  getVolumeLevel() {
+    return 0
+  }
+
+  getMediaStreamTrack() {
+    return {
+      readyState: this.closed ? "ended" : "live",
+      getSettings: () => ({ deviceId: this.deviceId }),
+    }
+  }
+}
+
+/**
+ * 模拟媒体频道
+ *
+ * 多个 CallFakeMediaEngine 注册到同一个频道上即可互相看到对方加入、离开和发布，不依赖浏览器和设备；
+ * 也可以通过 addUser 模拟没有 CallApi 的远端用户
+ */
+export class CallFakeMediaHub {
+  config: ICallFakeMediaHubConfig
+  private _rooms: Map<string, Map<number, IFakeMember>> = new Map()
+  private _timers: Set<any> = new Set()
+
+  constructor(config: ICallFakeMediaHubConfig = {}) {
+    this.config = config
+  }
+
+  /**
+   * 更新频道配置
+   * @param config 频道配置
+   */
+  setConfig(config: Partial<ICallFakeMediaHubConfig>) {
+    this.config = {
+      ...this.config,
+      ...config,
+    }
+  }
+
+  /**
+   * 添加模拟的远端用户
+   * @param roomId 频道名
+   * @param userId 用户ID
+   * @param mediaTypes 发布的媒体类型，默认发布音频和视频
+   */
+  addUser(
+    roomId: string,
+    userId: number,
+    mediaTypes: MediaType[] = ["audio", "video"],
+  ) {
+    this.join(roomId, { uid: userId, published: new Set() })
+    mediaTypes.forEach((mediaType) =>
+      this.publish(roomId, userId, mediaType),
+    )
+  }
+
+  /**
+   * 移除模拟的远端用户
+   * @param roomId 频道名
+   * @param userId 用户ID
+   * @param reason 离开原因，"ServerTimeOut" 表示网络断开
+   */
+  removeUser(roomId: string, userId: number, reason: string = "Quit") {
+    this.leave(roomId, userId, reason)
+  }
+
+  /** @hidden */
+  join(roomId: string, member: IFakeMember) {
+    const room = this._rooms.get(roomId) ?? new Map<number, IFakeMember>()
+    const exist = room.get(member.uid)
+    if (exist && exist.engine !== member.engine) {
+      const error: any = new Error(`uid:${member.uid} has joined`)
+      error.code = "UID_CONFLICT"
+      throw error
+    }
+    room.set(member.uid, member)
+    this._rooms.set(roomId, room)
+    room.forEach((other) => {
+      if (other === member) {
+        return
+      }
+      this._dispatch(roomId, other, (engine) => {
+        engine.handleRemoteJoined(member.uid)
+        member.published.forEach((mediaType) =>
+          engine.handleRemotePublished(member.uid, mediaType),
+        )
+      })
+      this._dispatch(roomId, member, (engine) => {
+        engine.handleRemoteJoined(other.uid)
+        other.published.forEach((mediaType) =>
+          engine.handleRemotePublished(other.uid, mediaType),
+        )
+      })
+    })
+  }
+
+  /** @hidden */
+  leave(roomId: string, userId: number, reason: string = "Quit") {
+    const room = this._rooms.get(roomId)
+    if (!room?.delete(userId)) {
+      return
+    }
+    room.forEach((other) =>
+      this._dispatch(roomId, other, (engine) =>
+        engine.handleRemoteLeft(userId, reason),
+      ),
+    )
+    if (!room.size) {
+      this._rooms.delete(roomId)
+    }
+  }
+
+  /** @hidden */
+  publish(roomId: string, userId: number, mediaType: MediaType) {
+    const room = this._rooms.get(roomId)
+    const member = room?.get(userId)
+    if (!room || !member || member.published.has(mediaType)) {
+      return
+    }
+    member.published.add(mediaType)
+    room.forEach((other) => {
+      if (other !== member) {
+        this._dispatch(roomId, other, (engine) =>
+          engine.handleRemotePublished(userId, mediaType),
+        )
+      }
+    })
+  }
+
+  /** @hidden */
+  unpublish(roomId: string, userId: number, mediaType: MediaType) {
+    const room = this._rooms.get(roomId)
+    const member = room?.get(userId)
+    if (!room || !member?.published.delete(mediaType)) {
+      return
+    }
+    room.forEach((other) => {
+      if (other !== member) {
+        this._dispatch(roomId, other, (engine) =>
+          engine.handleRemoteUnpublished(userId, mediaType),
+        )
+      }
+    })
+  }
+
+  /** @hidden */
+  isPublished(roomId: string, userId: number, mediaType: MediaType) {
+    return !!this._rooms.get(roomId)?.get(userId)?.published.has(mediaType)
+  }
+
+  /** @hidden */
+  schedule(callback: () => void, delay: number = 0) {
+    const timer = this._clock.setTimeout(() => {
+      this._timers.delete(timer)
+      callback()
+    }, delay)
+    this._timers.add(timer)
+  }
+
+  /**
+   * 清除所有未触发的事件
+   */
+  clear() {
+    this._timers.forEach((timer) => this._clock.clearTimeout(timer))
+    this._timers.clear()
+  }
+
+  //  ---------------------------- private ----------------------------
+
+  private get _clock() {
+    return this.config.clock ?? systemClock
+  }
+
+  private _dispatch(
+    roomId: string,
+    member: IFakeMember,
+    callback: (engine: CallFakeMediaEngine) => void,
+  ) {
+    const engine = member.engine
+    if (!engine) {
+      return
+    }
+    this.schedule(() => {
+      // the member may leave during delay
+      if (this._rooms.get(roomId)?.get(member.uid) === member) {
+        callback(engine)
+      }
+    }, this.config.latency ?? 0)
+  }
+}
+
+/**
+ * 模拟媒体引擎（用于离线开发和测试，可以在 Node 中运行）
+ *
+ * 模拟远端用户的加入、离开和发布，订阅后触发首帧，并可以模拟失败和断网；
+ * 视频通话仍然需要 DOM 环境（CallApi 会把视频播放到 localView / remoteView 中）
+ */
+export class CallFakeMediaEngine extends CallMediaEngine {
+  config: ICallFakeMediaEngineConfig
+  connectionState: ConnectionState = "DISCONNECTED"
+  roomId: string = ""
+  userId: number = 0
+  private _member?: IFakeMember
+  private _remoteUsers: Map<number, ICallMediaRemoteUser> = new Map()
+  private _failures: Map<CallFakeMediaOperation, Error> = new Map()
+
+  get hub(): CallFakeMediaHub {
+    return this.config.hub
+  }
+
+  get remoteUsers() {
+    return Array.from(this._remoteUsers.values())
+  }
+
+  constructor(config: ICallFakeMediaEngineConfig) {
+    super()
+    this.config = config
+  }
+
+  /**
+   * 下一次调用该操作时失败
+   * @param operation 操作
+   * @param error 抛出的异常，默认为 Error(`fake ${operation} failure`)
+   */
+  failNext(operation: CallFakeMediaOperation, error?: Error) {
+    this._failures.set(operation, error ?? new Error(`fake ${operation} failure`))
+  }
+
+  /**
+   * 模拟本地网络断开：本地进入重连状态，远端收到 user-left（原因为 ServerTimeOut）
+   */
+  simulateNetworkLost() {
+    if (this.connectionState != "CONNECTED") {
+      return
+    }
+    this.hub.leave(this.roomId, this.userId, "ServerTimeOut")
+    this._remoteUsers.forEach((user) => this._clearRemoteTracks(user))
+    this._remoteUsers.clear()
+    this._setConnectionState("RECONNECTING", "NETWORK_ERROR")
+  }
+
+  /**
+   * 模拟本地网络恢复：重新加入频道并发布之前发布的轨道
+   */
+  simulateNetworkRecovered() {
+    if (this.connectionState != "RECONNECTING" || !this._member) {
+      return
+    }
+    this.hub.join(this.roomId, this._member)
+    this._setConnectionState("CONNECTED")
+  }
+
+  /**
+   * 模拟服务端断开连接（无法恢复，例如被踢出频道）
+   * @param reason 断开原因
+   */
+  simulateDisconnected(reason: string = "UID_BANNED") {
+    if (this.connectionState == "DISCONNECTED") {
+      return
+    }
+    this._leaveHub()
+    this._setConnectionState("DISCONNECTED", reason)
+  }
+
+  async join(appId: string, roomId: string, token: string, userId: number) {
+    this._checkFailure("join")
+    if (this.connectionState != "DISCONNECTED") {
+      throw new Error(`join failed! connectionState:${this.connectionState}`)
+    }
+    this._setConnectionState("CONNECTING")
+    const member: IFakeMember = {
+      uid: userId,
+      engine: this,
+      published: new Set(),
+    }
+    try {
+      this.hub.join(roomId, member)
+    } catch (e) {
+      this._setConnectionState("DISCONNECTED")
+      throw e
+    }
+    this.roomId = roomId
+    this.userId = userId
+    this._member = member
+    this._setConnectionState("CONNECTED")
+  }
+
+  async leave() {
+    if (this.connectionState == "DISCONNECTED") {
+      return
+    }
+    this._setConnectionState("DISCONNECTING")
+    this._leaveHub()
+    this._setConnectionState("DISCONNECTED", "LEAVE")
+  }
+
+  async renewToken(token: string) {}
+
+  async publish(tracks: ILocalTrack | ILocalTrack[]) {
+    this._checkFailure("publish")
+    if (this.connectionState != "CONNECTED") {
+      throw new Error("publish failed! not connected")
+    }
+    ;(Array.isArray(tracks) ? tracks : [tracks]).forEach((track) =>
+      this.hub.publish(this.roomId, this.userId, track.trackMediaType),
+    )
+  }
+
+  async unpublish(tracks: ILocalTrack | ILocalTrack[]) {
+    if (!this._member) {
+      return
+    }
+    ;(Array.isArray(tracks) ? tracks : [tracks]).forEach((track) =>
+      this.hub.unpublish(this.roomId, this.userId, track.trackMediaType),
+    )
+  }
+
+  async subscribe(user: ICallMediaRemoteUser, mediaType: MediaType) {
+    this._checkFailure("subscribe")
+    const uid = Number(user.uid)
+    if (!this.hub.isPublished(this.roomId, uid, mediaType)) {
+      throw new Error(`subscribe failed! uid:${uid} has not published ${mediaType}`)
+    }
+    const track = new CallFakeTrack(mediaType)
+    if (mediaType == "audio") {
+      user.audioTrack = track as unknown as IRemoteAudioTrack
+    } else {
+      user.videoTrack = track as unknown as IRemoteVideoTrack
+    }
+    this.hub.schedule(() => {
+      if (!track.closed) {
+        track.emit("first-frame-decoded")
+      }
+    }, this.hub.config.firstFrameDelay ?? 0)
+  }
+
+  async unsubscribe(user: ICallMediaRemoteUser, mediaType: MediaType) {
+    const track = mediaType == "audio" ? user.audioTrack : user.videoTrack
+    ;(track as CallFakeTrack | undefined)?.close()
+    if (mediaType == "audio") {
+      user.audioTrack = undefined
+    } else {
+      user.videoTrack = undefined
+    }
+  }
+
+  async createMicrophoneAudioTrack() {
+    this._checkFailure("createTrack")
+    return new CallFakeTrack(
+      "audio",
+      this._getDevice("audioinput"),
+    ) as unknown as IMicrophoneAudioTrack
+  }
+
+  async createCameraVideoTrack() {
+    this._checkFailure("createTrack")
+    return new CallFakeTrack(
+      "video",
+      this._getDevice("videoinput"),
+    ) as unknown as ICameraVideoTrack
+  }
+
+  async createScreenVideoTrack() {
+    this._checkFailure("createTrack")
+    return new CallFakeTrack("video") as unknown as ILocalVideoTrack
+  }
+
+  async getDevices() {
+    return this.config.devices ?? DEFAULT_DEVICES
+  }
+
+  async getCameras() {
+    return (await this.getDevices()).filter((item) => item.kind == "videoinput")
+  }
+
+  async getMicrophones() {
+    return (await this.getDevices()).filter((item) => item.kind == "audioinput")
+  }
+
+  async getPlaybackDevices() {
+    return (await this.getDevices()).filter(
+      (item) => item.kind == "audiooutput",
+    )
+  }
+
+  getRTCStats() {
+    return { RTT: 0, SendBitrate: 0, RecvBitrate: 0 } as AgoraRTCStats
+  }
+
+  getLocalAudioStats() {
+    return { currentPacketLossRate: 0 } as LocalAudioTrackStats
+  }
+
+  getLocalVideoStats() {
+    return {
+      currentPacketLossRate: 0,
+      sendResolutionWidth: 0,
+      sendResolutionHeight: 0,
+      sendFrameRate: 0,
+    } as LocalVideoTrackStats
+  }
+
+  getRemoteAudioStats() {
+    return {}
+  }
+
+  getRemoteVideoStats() {
+    return {}
+  }
+
+  /** @hidden 由 CallFakeMediaHub 调用 */
+  handleRemoteJoined(userId: number) {
+    const user: ICallMediaRemoteUser = {
+      uid: userId,
+      hasAudio: false,
+      hasVideo: false,
+    }
+    this._remoteUsers.set(userId, user)
+    this.emit("user-joined", user)
+  }
+
+  /** @hidden 由 CallFakeMediaHub 调用 */
+  handleRemoteLeft(userId: number, reason: string) {
+    const user = this._remoteUsers.get(userId)
+    if (!user) {
+      return
+    }
+    this._clearRemoteTracks(user)
+    this._remoteUsers.delete(userId)
+    this.emit("user-left", user, reason)
+  }
+
+  /** @hidden 由 CallFakeMediaHub 调用 */
+  handleRemotePublished(userId: number, mediaType: MediaType) {
+    const user = this._remoteUsers.get(userId)
+    if (!user) {
+      return
+    }
+    if (mediaType == "audio") {
+      user.hasAudio = true
+    } else {
+      user.hasVideo = true
+    }
+    this.emit("user-published", user, mediaType)
+  }
+
+  /** @hidden 由 CallFakeMediaHub 调用 */
+  handleRemoteUnpublished(userId: number, mediaType: MediaType) {
+    const user = this._remoteUsers.get(userId)
+    if (!user) {
+      return
+    }
+    if (mediaType == "audio") {
+      user.hasAudio = false
+    } else {
+      user.hasVideo = false
+    }
+    this.emit("user-unpublished", user, mediaType)
+  }
+
+  //  ---------------------------- private ----------------------------
+
+  private _checkFailure(operation: CallFakeMediaOperation) {
+    const error = this._failures.get(operation)
+    if (error) {
+      this._failures.delete(operation)
+      throw error
+    }
+  }
+
+  private _getDevice(kind: MediaDeviceKind) {
+    return (
+      (this.config.devices ?? DEFAULT_DEVICES).find((item) => item.kind == kind)
+        ?.deviceId ?? ""
+    )
+  }
+
+  private _setConnectionState(state: ConnectionState, reason?: string) {
+    const revState = this.connectionState
+    this.connectionState = state
+    this.emit("connection-state-change", state, revState, reason)
+  }
+
+  private _leaveHub() {
+    this.hub.leave(this.roomId, this.userId)
+    this._remoteUsers.forEach((user) => this._clearRemoteTracks(user))
+    this._remoteUsers.clear()
+    this._member = undefined
+    this.roomId = ""
+    this.userId = 0
+  }
+
+  private _clearRemoteTracks(user: ICallMediaRemoteUser) {
+    ;(user.audioTrack as CallFakeTrack | undefined)?.close()
+    ;(user.videoTrack as CallFakeTrack | undefined)?.close()
+    user.audioTrack = undefined
+    user.videoTrack = undefined
+  }
+}
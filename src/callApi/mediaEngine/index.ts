@@ -0,0 +1,3 @@
+export * from "./base.ts"
+export * from "./agora.ts"
+export * from "./fake.ts"
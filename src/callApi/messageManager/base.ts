@@ -12,4 +12,10 @@ export abstract class CallMessageManager extends AGEventEmitter<CallMessageManag
    * @param message 消息
    */
   abstract sendMessage(userId: string | number, message: string): Promise<void>
+
+  /**
+   * 更新 token（消息通道不需要 token 时无需实现）
+   * @param token 新的token
+   */
+  async renewToken(token: string): Promise<void> {}
 }
@@ -1,2 +1,4 @@
 export * from "./base.ts"
 export * from "./rtm.ts"
+export * from "./loopback.ts"
+export * from "./websocket.ts"
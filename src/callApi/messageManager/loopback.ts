@@ -0,0 +1,192 @@
+import { CallMessageManager } from "./base"
+import { ICallClock } from "../types"
+import { systemClock } from "../common"
+
+/** 单条消息的投递规则 */
+export interface ICallLoopbackDeliverRule {
+  /** 丢弃该消息 */
+  drop?: boolean
+  /** 该消息的延迟（毫秒），代替 latency 配置 */
+  delay?: number
+}
+
+/** 内存消息总线配置 */
+export interface ICallLoopbackMessageHubConfig {
+  /** 消息延迟（毫秒），传入数组表示 [最小值, 最大值] 之间随机 */
+  latency?: number | [number, number]
+  /** 丢包率 (0 ~ 1) */
+  lossRate?: number
+  /** 乱序率 (0 ~ 1)，命中时该消息会额外延迟 reorderDelay 毫秒，从而被后发的消息超过 */
+  reorderRate?: number
+  /** 乱序时额外增加的延迟（毫秒） */
+  reorderDelay?: number
+  /**
+   * 投递前调用，可以按接收方和消息内容丢弃或延迟指定的消息（优先于 lossRate 和 latency）
+   * @param userId 接收方用户ID
+   * @param message 消息
+   */
+  interceptor?: (
+    userId: string,
+    message: string,
+  ) => ICallLoopbackDeliverRule | void
+  /** 随机数生成器（丢包、延迟和乱序），默认 Math.random，传入固定种子的生成器可以复现 */
+  random?: () => number
+  /** 时钟，默认使用系统时钟 */
+  clock?: ICallClock
+}
+
+/** 内存消息管理器配置 */
+export interface ICallLoopbackMessageManagerConfig {
+  /** 用户 ID */
+  userId: number
+  /** 共享的内存消息总线 */
+  hub: CallLoopbackMessageHub
+}
+
+const DEFAULT_REORDER_DELAY = 100
+
+/**
+ * 内存消息总线
+ *
+ * 多个 CallLoopbackMessageManager 注册到同一个总线上，即可在同一进程内互相收发消息，不依赖任何网络
+ */
+export class CallLoopbackMessageHub {
+  config: ICallLoopbackMessageHubConfig
+  private _managers: Map<string, CallLoopbackMessageManager> = new Map()
+  private _timers: Set<any> = new Set()
+
+  constructor(config: ICallLoopbackMessageHubConfig = {}) {
+    this.config = config
+  }
+
+  /**
+   * 更新总线配置
+   * @param config 总线配置
+   */
+  setConfig(config: Partial<ICallLoopbackMessageHubConfig>) {
+    this.config = {
+      ...this.config,
+      ...config,
+    }
+  }
+
+  /**
+   * 注册用户
+   * @param userId 用户ID
+   * @param manager 消息管理器
+   */
+  register(userId: string | number, manager: CallLoopbackMessageManager) {
+    const key = userId.toString()
+    const exist = this._managers.get(key)
+    if (exist && exist !== manager) {
+      throw new Error(`userId:${key} has been registered`)
+    }
+    this._managers.set(key, manager)
+  }
+
+  /**
+   * 注销用户
+   * @param userId 用户ID
+   */
+  unregister(userId: string | number) {
+    this._managers.delete(userId.toString())
+  }
+
+  /**
+   * 用户是否在线
+   * @param userId 用户ID
+   */
+  isOnline(userId: string | number) {
+    return this._managers.has(userId.toString())
+  }
+
+  /**
+   * 投递消息
+   * @param userId 接收方用户ID
+   * @param message 消息
+   */
+  async deliver(userId: string | number, message: string) {
+    const target = this._managers.get(userId.toString())
+    if (!target) {
+      const error: any = new Error(`userId:${userId} is offline`)
+      error.code = "USER_OFFLINE"
+      throw error
+    }
+    const rule = this.config.interceptor?.(userId.toString(), message)
+    if (rule?.drop) {
+      return
+    }
+    const { lossRate = 0 } = this.config
+    if (lossRate > 0 && this._random() < lossRate) {
+      // lost message, sender will not know
+      return
+    }
+    const timer = this._clock.setTimeout(() => {
+      this._timers.delete(timer)
+      // target may unregister during delay
+      if (this._managers.get(userId.toString()) === target) {
+        target.emit("messageReceive", message)
+      }
+    }, rule?.delay ?? this._genDelay())
+    this._timers.add(timer)
+  }
+
+  /**
+   * 清除所有未投递的消息
+   */
+  clear() {
+    this._timers.forEach((timer) => this._clock.clearTimeout(timer))
+    this._timers.clear()
+  }
+
+  //  ---------------------------- private ----------------------------
+
+  private get _clock() {
+    return this.config.clock ?? systemClock
+  }
+
+  private _random() {
+    return (this.config.random ?? Math.random)()
+  }
+
+  private _genDelay() {
+    const { latency = 0, reorderRate = 0, reorderDelay } = this.config
+    let delay = 0
+    if (Array.isArray(latency)) {
+      const [min, max] = latency
+      delay = min + this._random() * (max - min)
+    } else {
+      delay = latency
+    }
+    if (reorderRate > 0 && this._random() < reorderRate) {
+      delay += reorderDelay ?? DEFAULT_REORDER_DELAY
+    }
+    return delay
+  }
+}
+
+/** 内存消息管理器（用于离线开发和测试） */
+export class CallLoopbackMessageManager extends CallMessageManager {
+  config: ICallLoopbackMessageManagerConfig
+
+  get hub(): CallLoopbackMessageHub {
+    return this.config.hub
+  }
+
+  constructor(config: ICallLoopbackMessageManagerConfig) {
+    super()
+    this.config = config
+    this.hub.register(config.userId, this)
+  }
+
+  async sendMessage(userId: string | number, message: string) {
+    await this.hub.deliver(userId, message)
+  }
+
+  /**
+   * 从消息总线注销
+   */
+  release() {
+    this.hub.unregister(this.config.userId)
+  }
+}
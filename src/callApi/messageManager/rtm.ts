@@ -13,6 +13,7 @@ export interface ICallRtmMessageManagerConfig {
 /** RTM消息管理器 */
 export class CallRtmMessageManager extends CallMessageManager {
   config: ICallRtmMessageManagerConfig
+  private _disconnected: boolean = false
 
   get rtmClient(): RTMClient {
     return this.config.rtmClient
@@ -24,6 +25,11 @@ export class CallRtmMessageManager extends CallMessageManager {
     this.init()
   }
 
+  async renewToken(token: string) {
+    await this.rtmClient.renewToken(token)
+    this.config.rtmToken = token
+  }
+
   async sendMessage(userId: string | number, message: string) {
     const msg = encodeUint8Array(message)
     // console.log("[test] sendMessage", userId, message, msg)
@@ -39,6 +45,32 @@ export class CallRtmMessageManager extends CallMessageManager {
         this.emit("messageReceive", decodeUint8Array(message as Uint8Array))
       }
     })
+    this.rtmClient.addEventListener("status", (event) => {
+      if ("channelName" in event) {
+        // stream channel status, not used
+        return
+      }
+      const { state } = event
+      const channelName = this.config.userId.toString()
+      if (state == "CONNECTED") {
+        if (this._disconnected) {
+          this._disconnected = false
+          this.emit("connected", channelName)
+        }
+      } else if (
+        state == "RECONNECTING" ||
+        state == "DISCONNECTED" ||
+        state == "FAILED"
+      ) {
+        if (!this._disconnected) {
+          this._disconnected = true
+          this.emit("disconnected", channelName)
+        }
+      }
+    })
+    this.rtmClient.addEventListener("tokenPrivilegeWillExpire", (channelName) => {
+      this.emit("tokenWillExpire", channelName)
+    })
     // this.rtmClient.addEventListener("presence", (event) => {
     //   console.log("[test] presence", event)
     // })
@@ -0,0 +1,216 @@
+import { CallMessageManager } from "./base"
+
+/** WebSocket消息管理器配置 */
+export interface ICallWebSocketMessageManagerConfig {
+  /** 信令服务地址，例如 ws://localhost:8090 */
+  url: string
+  /** 用户 ID */
+  userId: number
+  /** 登录信令服务的 token */
+  token?: string
+  /** 请求超时时间（毫秒），默认 10000 */
+  requestTimeoutMillisecond?: number
+  /** WebSocket 实现（非浏览器环境下传入，例如 ws 库） */
+  WebSocket?: typeof WebSocket
+}
+
+interface IRelayFrame {
+  type: "login" | "message" | "renewToken" | "ack" | "error" | "tokenWillExpire"
+  seq?: number
+  to?: string
+  from?: string
+  payload?: string
+  userId?: string
+  token?: string
+  code?: string
+  message?: string
+}
+
+interface IPendingRequest {
+  resolve: () => void
+  reject: (err: any) => void
+  timer: any
+}
+
+const DEFAULT_REQUEST_TIMEOUT = 10 * 1000
+
+/** WebSocket消息管理器 */
+export class CallWebSocketMessageManager extends CallMessageManager {
+  config: ICallWebSocketMessageManagerConfig
+  private _ws?: WebSocket
+  private _seq: number = 0
+  private _pending: Map<number, IPendingRequest> = new Map()
+  private _connected: boolean = false
+
+  get connected() {
+    return this._connected
+  }
+
+  get channelName() {
+    return this.config.userId.toString()
+  }
+
+  constructor(config: ICallWebSocketMessageManagerConfig) {
+    super()
+    this.config = config
+  }
+
+  /**
+   * 连接信令服务并登录
+   */
+  async connect() {
+    if (this._connected) {
+      return
+    }
+    const WebSocketImpl = this.config.WebSocket ?? WebSocket
+    const ws = new WebSocketImpl(this.config.url)
+    this._ws = ws
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const fail = () => reject(new Error(`connect ${this.config.url} failed`))
+        ws.onopen = () => resolve()
+        ws.onerror = fail
+        // closed before open, e.g. refused by the server
+        ws.onclose = fail
+      })
+    } catch (e) {
+      if (this._ws === ws) {
+        this._ws = undefined
+      }
+      ws.onclose = null
+      throw e
+    }
+    ws.onerror = null
+    ws.onmessage = (event) => this._handleFrame(event.data)
+    ws.onclose = () => this._handleClose(ws)
+    try {
+      await this._request({
+        type: "login",
+        userId: this.channelName,
+        token: this.config.token,
+      })
+    } catch (e) {
+      await this.disconnect()
+      throw e
+    }
+    this._connected = true
+    this.emit("connected", this.channelName)
+  }
+
+  /**
+   * 断开连接
+   */
+  async disconnect() {
+    const ws = this._ws
+    this._ws = undefined
+    this._connected = false
+    this._rejectPending(new Error("websocket disconnected"))
+    ws?.close()
+  }
+
+  /**
+   * 更新 token
+   * @param token 新的token
+   */
+  async renewToken(token: string) {
+    this.config.token = token
+    await this._request({ type: "renewToken", token })
+  }
+
+  async sendMessage(userId: string | number, message: string) {
+    if (!this._connected) {
+      const error: any = new Error("websocket is not connected")
+      error.code = "NOT_CONNECTED"
+      throw error
+    }
+    await this._request({
+      type: "message",
+      to: userId.toString(),
+      payload: message,
+    })
+  }
+
+  //  ---------------------------- private ----------------------------
+
+  private _request(frame: IRelayFrame) {
+    const ws = this._ws
+    if (!ws) {
+      return Promise.reject(new Error("websocket is not connected"))
+    }
+    const seq = ++this._seq
+    const timeout =
+      this.config.requestTimeoutMillisecond ?? DEFAULT_REQUEST_TIMEOUT
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this._pending.delete(seq)
+        const error: any = new Error(`request ${frame.type} timeout`)
+        error.code = "TIMEOUT"
+        reject(error)
+      }, timeout)
+      this._pending.set(seq, { resolve, reject, timer })
+      ws.send(JSON.stringify({ ...frame, seq }))
+    })
+  }
+
+  private _handleFrame(raw: any) {
+    let frame: IRelayFrame
+    try {
+      frame = JSON.parse(raw.toString())
+    } catch (e) {
+      return
+    }
+    switch (frame.type) {
+      case "message":
+        this.emit("messageReceive", frame.payload)
+        break
+      case "ack":
+        this._settle(frame.seq)
+        break
+      case "error": {
+        const error: any = new Error(frame.message)
+        error.code = frame.code
+        this._settle(frame.seq, error)
+        break
+      }
+      case "tokenWillExpire":
+        this.emit("tokenWillExpire", this.channelName)
+        break
+    }
+  }
+
+  private _settle(seq?: number, error?: any) {
+    if (seq === undefined) {
+      return
+    }
+    const pending = this._pending.get(seq)
+    if (!pending) {
+      return
+    }
+    clearTimeout(pending.timer)
+    this._pending.delete(seq)
+    if (error) {
+      pending.reject(error)
+    } else {
+      pending.resolve()
+    }
+  }
+
+  private _rejectPending(error: any) {
+    this._pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    this._pending.clear()
+  }
+
+  private _handleClose(ws: WebSocket) {
+    // closed by disconnect() or replaced by a new connection
+    if (this._ws !== ws) {
+      return
+    }
+    this._ws = undefined
+    this._connected = false
+    this._rejectPending(new Error("websocket closed"))
+    this.emit("disconnected", this.channelName)
+  }
+}
@@ -0,0 +1,62 @@
+import { ICallRecord, ICallRecordQuery } from "../types"
+
+/**
+ * 通话记录存储
+ */
+export abstract class CallRecordStore {
+  /**
+   * 保存通话记录（callId 相同时覆盖）
+   * @param record 通话记录
+   */
+  abstract add(record: ICallRecord): Promise<void>
+
+  /**
+   * 查询通话记录，按开始呼叫时间倒序返回
+   * @param query 查询条件
+   */
+  abstract query(query?: ICallRecordQuery): Promise<ICallRecord[]>
+
+  /**
+   * 删除通话记录
+   * @param callId 通话ID
+   */
+  abstract remove(callId: string): Promise<void>
+
+  /**
+   * 清空通话记录
+   */
+  abstract clear(): Promise<void>
+}
+
+/**
+ * 按查询条件过滤、排序并分页
+ * @param records 通话记录
+ * @param query 查询条件
+ */
+export const filterCallRecords = (
+  records: ICallRecord[],
+  query: ICallRecordQuery = {},
+) => {
+  const {
+    remoteUserId,
+    direction,
+    callType,
+    outcomes,
+    startTimeFrom,
+    startTimeTo,
+    offset = 0,
+    limit,
+  } = query
+  const list = records
+    .filter(
+      (item) =>
+        (remoteUserId === undefined || item.remoteUserId == remoteUserId) &&
+        (direction === undefined || item.direction == direction) &&
+        (callType === undefined || item.callType == callType) &&
+        (!outcomes?.length || outcomes.includes(item.outcome)) &&
+        (startTimeFrom === undefined || item.startTime >= startTimeFrom) &&
+        (startTimeTo === undefined || item.startTime <= startTimeTo),
+    )
+    .sort((a, b) => b.startTime - a.startTime)
+  return list.slice(offset, limit === undefined ? undefined : offset + limit)
+}
@@ -0,0 +1,3 @@
+export * from "./base.ts"
+export * from "./memory.ts"
+export * from "./indexedDB.ts"
@@ -0,0 +1,131 @@
+import { ICallRecord, ICallRecordQuery } from "../types"
+import { CallRecordStore, filterCallRecords } from "./base"
+
+/** IndexedDB 通话记录存储配置 */
+export interface ICallIndexedDBRecordStoreConfig {
+  /** 数据库名，默认 callapi */
+  dbName?: string
+  /** 表名，默认 callRecords */
+  storeName?: string
+  /** 最多保存的条数，超出后删除最早的记录，默认 500 */
+  maxRecords?: number
+}
+
+const DEFAULT_DB_NAME = "callapi"
+const DEFAULT_STORE_NAME = "callRecords"
+const DEFAULT_MAX_RECORDS = 500
+const DB_VERSION = 1
+const START_TIME_INDEX = "startTime"
+
+const promisifyRequest = <T>(request: IDBRequest<T>) => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * IndexedDB 通话记录存储（刷新页面后保留）
+ */
+export class CallIndexedDBRecordStore extends CallRecordStore {
+  config: ICallIndexedDBRecordStoreConfig
+  private _db?: Promise<IDBDatabase>
+
+  get storeName() {
+    return this.config.storeName || DEFAULT_STORE_NAME
+  }
+
+  constructor(config: ICallIndexedDBRecordStoreConfig = {}) {
+    super()
+    this.config = config
+  }
+
+  async add(record: ICallRecord) {
+    const store = await this._getStore("readwrite")
+    await promisifyRequest(store.put({ ...record }))
+    await this._trim()
+  }
+
+  async query(query?: ICallRecordQuery) {
+    const store = await this._getStore("readonly")
+    const records = await promisifyRequest(store.getAll())
+    return filterCallRecords(records as ICallRecord[], query)
+  }
+
+  async remove(callId: string) {
+    const store = await this._getStore("readwrite")
+    await promisifyRequest(store.delete(callId))
+  }
+
+  async clear() {
+    const store = await this._getStore("readwrite")
+    await promisifyRequest(store.clear())
+  }
+
+  /**
+   * 关闭数据库连接
+   */
+  async close() {
+    if (!this._db) {
+      return
+    }
+    const db = await this._db
+    db.close()
+    this._db = undefined
+  }
+
+  //  ---------------------------- private ----------------------------
+
+  private _open() {
+    if (!this._db) {
+      const request = indexedDB.open(
+        this.config.dbName || DEFAULT_DB_NAME,
+        DB_VERSION,
+      )
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          const store = db.createObjectStore(this.storeName, {
+            keyPath: "callId",
+          })
+          store.createIndex(START_TIME_INDEX, "startTime")
+        }
+      }
+      this._db = promisifyRequest(request)
+      // allow to retry after open failed
+      this._db.catch(() => {
+        this._db = undefined
+      })
+    }
+    return this._db
+  }
+
+  private async _getStore(mode: IDBTransactionMode) {
+    const db = await this._open()
+    return db.transaction(this.storeName, mode).objectStore(this.storeName)
+  }
+
+  private async _trim() {
+    const maxRecords = this.config.maxRecords ?? DEFAULT_MAX_RECORDS
+    const store = await this._getStore("readwrite")
+    let count = await promisifyRequest(store.count())
+    if (count <= maxRecords) {
+      return
+    }
+    // delete the oldest records
+    await new Promise<void>((resolve, reject) => {
+      const request = store.index(START_TIME_INDEX).openCursor()
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor || count <= maxRecords) {
+          resolve()
+          return
+        }
+        cursor.delete()
+        count--
+        cursor.continue()
+      }
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
@@ -0,0 +1,47 @@
+import { ICallRecord, ICallRecordQuery } from "../types"
+import { CallRecordStore, filterCallRecords } from "./base"
+
+/** 内存通话记录存储配置 */
+export interface ICallMemoryRecordStoreConfig {
+  /** 最多保存的条数，超出后删除最早的记录，默认 100 */
+  maxRecords?: number
+}
+
+const DEFAULT_MAX_RECORDS = 100
+
+/**
+ * 内存通话记录存储（刷新页面后丢失）
+ */
+export class CallMemoryRecordStore extends CallRecordStore {
+  config: ICallMemoryRecordStoreConfig
+  private _records: Map<string, ICallRecord> = new Map()
+
+  constructor(config: ICallMemoryRecordStoreConfig = {}) {
+    super()
+    this.config = config
+  }
+
+  async add(record: ICallRecord) {
+    this._records.delete(record.callId)
+    this._records.set(record.callId, { ...record })
+    const maxRecords = this.config.maxRecords ?? DEFAULT_MAX_RECORDS
+    while (this._records.size > maxRecords) {
+      const first = this._records.keys().next().value!
+      this._records.delete(first)
+    }
+  }
+
+  async query(query?: ICallRecordQuery) {
+    return filterCallRecords(Array.from(this._records.values()), query).map(
+      (item) => ({ ...item }),
+    )
+  }
+
+  async remove(callId: string) {
+    this._records.delete(callId)
+  }
+
+  async clear() {
+    this._records.clear()
+  }
+}
@@ -0,0 +1 @@
+export * from "./scenario.ts"
@@ -0,0 +1,386 @@
+import { CallApi } from "../core"
+import { CallVirtualClock } from "../common"
+import {
+  CallLoopbackMessageHub,
+  CallLoopbackMessageManager,
+  ICallLoopbackDeliverRule,
+} from "../messageManager"
+import { CallFakeMediaEngine, CallFakeMediaHub } from "../mediaEngine"
+import {
+  CallAction,
+  CallEvent,
+  CallStateReason,
+  CallStateType,
+  ICallConfig,
+  IPrepareConfig,
+} from "../types"
+
+/** 模拟场景中的用户配置 */
+export interface ICallScenarioUser {
+  /** 用户ID */
+  userId: number
+  /** 覆盖默认的 CallApi 配置 */
+  callConfig?: Partial<ICallConfig>
+  /** 覆盖默认的 prepareForCall 配置 */
+  prepareConfig?: Partial<IPrepareConfig>
+}
+
+/** 模拟场景配置 */
+export interface ICallScenarioConfig {
+  /** 参与的用户（用户ID或用户配置） */
+  users: (number | ICallScenarioUser)[]
+  /** 消息延迟（毫秒），默认 0 */
+  messageLatency?: number
+  /** 媒体事件延迟（毫秒），默认 0 */
+  mediaLatency?: number
+  /** 订阅后触发首帧的延迟（毫秒），默认 0 */
+  firstFrameDelay?: number
+  /** 起始时间戳（毫秒），默认 0 */
+  startTime?: number
+}
+
+/** 消息匹配条件，不传的字段不参与匹配 */
+export interface ICallScenarioMessageMatcher {
+  /** 发送方用户ID */
+  from?: number
+  /** 接收方用户ID */
+  to?: number
+  /** 消息类型 */
+  action?: CallAction
+}
+
+/** 记录的呼叫状态变更 */
+export interface ICallScenarioStateRecord {
+  /** 变更时的虚拟时间戳 */
+  time: number
+  state: CallStateType
+  stateReason: CallStateReason
+  eventReason?: string
+}
+
+/** 期望的呼叫状态：只有状态，或者 [状态, 状态变更原因] */
+export type CallScenarioExpectedState =
+  | CallStateType
+  | [CallStateType, CallStateReason]
+
+interface IScenarioMessageRule {
+  matcher: ICallScenarioMessageMatcher
+  rule: ICallLoopbackDeliverRule
+  count: number
+}
+
+const DEFAULT_ACT_TIMEOUT = 60 * 1000
+
+const formatState = ([state, stateReason]: [
+  CallStateType,
+  CallStateReason?,
+]) => {
+  const name = CallStateType[state]
+  return stateReason === undefined
+    ? name
+    : `${name}(${CallStateReason[stateReason]})`
+}
+
+/**
+ * 呼叫模拟场景
+ *
+ * 多个 CallApi 共享一个虚拟时钟、内存消息总线和模拟媒体频道，时间只在 act / advance 时前进；
+ * 可以按发送方、接收方和消息类型丢弃或延迟消息，并断言每个用户的 callStateChanged 序列
+ *
+ * @example
+ * // 丢弃被叫所有的 Accept（只丢弃一次时会被重发，主叫仍然能接通），主叫呼叫超时
+ * const scenario = new CallScenarioHarness({
+ *   users: [{ userId: 1, prepareConfig: { callTimeoutMillisecond: 15 * 1000 } }, 2],
+ * })
+ * await scenario.prepare()
+ * scenario.dropMessages({ from: 2, action: CallAction.Accept }, Infinity)
+ * await scenario.act(() => scenario.api(1).call(2, CallType.audio))
+ * // call 在消息发出后就返回，等待消息送达被叫
+ * await scenario.advance(100)
+ * await scenario.act(() => scenario.api(2).accept(1))
+ * await scenario.advance(15 * 1000)
+ * scenario.expectStates(1, [
+ *   CallStateType.prepared,
+ *   CallStateType.calling,
+ *   [CallStateType.prepared, CallStateReason.callingTimeout],
+ * ])
+ * scenario.expectStates(2, [
+ *   CallStateType.prepared,
+ *   CallStateType.calling,
+ *   CallStateType.connecting,
+ *   CallStateType.connected,
+ *   [CallStateType.prepared, CallStateReason.remoteHangup],
+ * ])
+ */
+export class CallScenarioHarness {
+  config: ICallScenarioConfig
+  clock: CallVirtualClock
+  messageHub: CallLoopbackMessageHub
+  mediaHub: CallFakeMediaHub
+  private _users: Map<number, ICallScenarioUser> = new Map()
+  private _apis: Map<number, CallApi> = new Map()
+  private _managers: Map<number, CallLoopbackMessageManager> = new Map()
+  private _engines: Map<number, CallFakeMediaEngine> = new Map()
+  private _states: Map<number, ICallScenarioStateRecord[]> = new Map()
+  private _events: Map<number, CallEvent[]> = new Map()
+  private _messageRules: IScenarioMessageRule[] = []
+
+  constructor(config: ICallScenarioConfig) {
+    this.config = config
+    this.clock = new CallVirtualClock(config.startTime)
+    this.messageHub = new CallLoopbackMessageHub({
+      latency: config.messageLatency ?? 0,
+      clock: this.clock,
+      interceptor: (userId, message) => this._intercept(userId, message),
+    })
+    this.mediaHub = new CallFakeMediaHub({
+      latency: config.mediaLatency ?? 0,
+      firstFrameDelay: config.firstFrameDelay ?? 0,
+      clock: this.clock,
+    })
+    config.users.forEach((item) => {
+      const user = typeof item == "number" ? { userId: item } : item
+      if (this._users.has(user.userId)) {
+        throw new Error(`userId:${user.userId} is duplicated`)
+      }
+      this._users.set(user.userId, user)
+      this._createUser(user)
+    })
+  }
+
+  /**
+   * 所有用户执行 prepareForCall（每个用户使用自己的频道 room-<userId>）
+   */
+  async prepare() {
+    for (const [userId, user] of this._users) {
+      await this.act(() =>
+        this.api(userId).prepareForCall({
+          roomId: `room-${userId}`,
+          rtcToken: "fake-token",
+          ...user.prepareConfig,
+        }),
+      )
+    }
+  }
+
+  /**
+   * 获取用户的 CallApi
+   * @param userId 用户ID
+   */
+  api(userId: number): CallApi {
+    const api = this._apis.get(userId)
+    if (!api) {
+      throw new Error(`userId:${userId} is not in the scenario`)
+    }
+    return api
+  }
+
+  /**
+   * 获取用户的模拟媒体引擎（模拟失败和断网）
+   * @param userId 用户ID
+   */
+  engine(userId: number): CallFakeMediaEngine {
+    const engine = this._engines.get(userId)
+    if (!engine) {
+      throw new Error(`userId:${userId} is not in the scenario`)
+    }
+    return engine
+  }
+
+  /**
+   * 丢弃之后匹配的消息
+   * @param matcher 消息匹配条件
+   * @param count 丢弃的消息数量，默认 1，传入 Infinity 表示一直丢弃
+   */
+  dropMessages(matcher: ICallScenarioMessageMatcher, count: number = 1) {
+    this._messageRules.push({ matcher, rule: { drop: true }, count })
+  }
+
+  /**
+   * 延迟之后匹配的消息
+   * @param matcher 消息匹配条件
+   * @param delay 延迟（毫秒），代替 messageLatency
+   * @param count 延迟的消息数量，默认 1，传入 Infinity 表示一直延迟
+   */
+  delayMessages(
+    matcher: ICallScenarioMessageMatcher,
+    delay: number,
+    count: number = 1,
+  ) {
+    this._messageRules.push({ matcher, rule: { delay }, count })
+  }
+
+  /**
+   * 执行一个操作，并推进虚拟时间直到操作完成
+   * @param action 操作（例如调用 CallApi 的方法）
+   * @param timeout 最多推进的时间（毫秒），超过后仍未完成时抛出异常
+   */
+  async act<T>(
+    action: () => Promise<T>,
+    timeout: number = DEFAULT_ACT_TIMEOUT,
+  ): Promise<T> {
+    let settled = false
+    const promise = action()
+    promise.then(
+      () => (settled = true),
+      () => (settled = true),
+    )
+    const deadline = this.clock.now() + timeout
+    await this.clock.step(this.clock.now())
+    while (!settled && (await this.clock.step(deadline))) {
+      // 依次执行定时器，直到操作完成
+    }
+    if (!settled) {
+      throw new Error(`act failed! action is not settled after ${timeout}ms`)
+    }
+    return promise
+  }
+
+  /**
+   * 虚拟时间前进，期间到期的消息、媒体事件和超时依次执行
+   * @param ms 前进的时间（毫秒）
+   */
+  advance(ms: number) {
+    return this.clock.advance(ms)
+  }
+
+  /**
+   * 获取用户的呼叫状态变更记录
+   * @param userId 用户ID
+   */
+  stateRecords(userId: number): ICallScenarioStateRecord[] {
+    this.api(userId)
+    return [...(this._states.get(userId) ?? [])]
+  }
+
+  /**
+   * 获取用户的呼叫状态序列
+   * @param userId 用户ID
+   */
+  states(userId: number): CallStateType[] {
+    return this.stateRecords(userId).map((item) => item.state)
+  }
+
+  /**
+   * 获取用户的呼叫事件序列
+   * @param userId 用户ID
+   */
+  events(userId: number): CallEvent[] {
+    this.api(userId)
+    return [...(this._events.get(userId) ?? [])]
+  }
+
+  /**
+   * 断言用户的 callStateChanged 序列，不一致时抛出异常（异常信息包含期望和实际的序列）
+   * @param userId 用户ID
+   * @param expected 期望的状态序列
+   */
+  expectStates(userId: number, expected: CallScenarioExpectedState[]) {
+    const actual = this.stateRecords(userId)
+    const matched =
+      actual.length == expected.length &&
+      expected.every((item, index) => {
+        const [state, stateReason] = Array.isArray(item) ? item : [item]
+        return (
+          actual[index].state == state &&
+          (stateReason === undefined ||
+            actual[index].stateReason == stateReason)
+        )
+      })
+    if (!matched) {
+      const expectedText = expected
+        .map((item) => formatState(Array.isArray(item) ? item : [item]))
+        .join(" -> ")
+      const actualText = actual
+        .map((item) => formatState([item.state, item.stateReason]))
+        .join(" -> ")
+      throw new Error(
+        `userId:${userId} callStateChanged mismatch, expected: ${expectedText}, actual: ${actualText}`,
+      )
+    }
+  }
+
+  /**
+   * 清除记录的状态和事件（不影响正在进行的通话）
+   */
+  clearRecords() {
+    this._states.forEach((records) => (records.length = 0))
+    this._events.forEach((events) => (events.length = 0))
+  }
+
+  /**
+   * 结束场景：释放所有用户的 CallApi 和媒体引擎，丢弃未投递的消息和媒体事件，注销所有用户
+   */
+  async release() {
+    for (const api of this._apis.values()) {
+      await this.act(() => api.release()).catch(() => {})
+    }
+    this.messageHub.clear()
+    this.mediaHub.clear()
+    this._messageRules = []
+    this._managers.forEach((manager) => manager.release())
+    this._engines.forEach((engine) => engine.release())
+  }
+
+  //  ---------------------------- private ----------------------------
+
+  private _createUser(user: ICallScenarioUser) {
+    const { userId } = user
+    const manager = new CallLoopbackMessageManager({
+      userId,
+      hub: this.messageHub,
+    })
+    const engine = new CallFakeMediaEngine({ hub: this.mediaHub })
+    const api = new CallApi({
+      appId: "fake",
+      appCertificate: "",
+      userId,
+      callMessageManager: manager,
+      mediaEngine: engine,
+      clock: this.clock,
+      logConfig: { sinks: [] },
+      ...user.callConfig,
+    })
+    const states: ICallScenarioStateRecord[] = []
+    const events: CallEvent[] = []
+    api.on("callStateChanged", (state, stateReason, eventReason) => {
+      states.push({ time: this.clock.now(), state, stateReason, eventReason })
+    })
+    api.on("callEventChanged", (event) => {
+      events.push(event)
+    })
+    this._apis.set(userId, api)
+    this._managers.set(userId, manager)
+    this._engines.set(userId, engine)
+    this._states.set(userId, states)
+    this._events.set(userId, events)
+  }
+
+  private _intercept(
+    userId: string,
+    message: string,
+  ): ICallLoopbackDeliverRule | void {
+    let data: any
+    try {
+      data = JSON.parse(message)
+    } catch (e) {
+      return
+    }
+    const item = this._messageRules.find(({ matcher }) => {
+      return (
+        (matcher.from === undefined ||
+          matcher.from == Number(data?.fromUserId)) &&
+        (matcher.to === undefined || matcher.to == Number(userId)) &&
+        (matcher.action === undefined ||
+          matcher.action == data?.message_action)
+      )
+    })
+    if (!item) {
+      return
+    }
+    if (--item.count <= 0) {
+      this._messageRules = this._messageRules.filter((rule) => rule !== item)
+    }
+    return item.rule
+  }
+}
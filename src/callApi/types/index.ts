@@ -1,12 +1,26 @@
 import { CallMessageManager } from "../messageManager"
+import { CallRecordStore } from "../recordStore"
+import { CallLogSink } from "../logSink"
 import type {
   IAgoraRTCClient,
+  IAgoraRTCRemoteUser,
+  ILocalTrack,
+  AgoraRTCStats,
+  LocalAudioTrackStats,
+  LocalVideoTrackStats,
+  RemoteAudioTrackStats,
+  RemoteVideoTrackStats,
+  ConnectionState,
+  NetworkQuality,
+  DeviceInfo,
   ICameraVideoTrack,
   IMicrophoneAudioTrack,
   IRemoteAudioTrack,
   IRemoteVideoTrack,
   MicrophoneAudioTrackInitConfig,
   CameraVideoTrackInitConfig,
+  ILocalVideoTrack,
+  ScreenVideoTrackInitConfig,
 } from "agora-rtc-sdk-ng/esm"
 
 export interface ICallConfig {
@@ -16,12 +30,127 @@ export interface ICallConfig {
   appCertificate: string
   /** 用户 ID */
   userId: number
-  /**  rtc client 实例 */
+  /**
+   * rtc client 实例（仅默认的 CallAgoraMediaEngine 使用）
+   * 不传时在 rtc sdk 加载完成后创建，之前 CallApi.rtcClient 为 undefined（使用 CallApi.getRtcClient 等待）
+   */
   rtcClient?: IAgoraRTCClient
+  /** 媒体引擎，默认使用 CallAgoraMediaEngine */
+  mediaEngine?: ICallMediaEngine
   /** 日志等级 */
   logLevel?: LogLevel
   /** CallMessageManager 实例  */
   callMessageManager: CallMessageManager
+  /** 消息回执配置 */
+  receiptConfig?: IReceiptConfig
+  /**
+   * token 提供者，token 即将过期时调用以获取新的 token
+   * @param tokenType token 类型
+   * @param channelName 频道名（rtc token 为万能token时可忽略）
+   */
+  tokenProvider?: (tokenType: CallTokenType, channelName: string) => Promise<string>
+  /** 消息通道断连处理配置 */
+  rtmLostConfig?: IRtmLostConfig
+  /** 消息签名器（例如 CallHmacMessageSigner），不设置时消息不签名也不校验 */
+  messageSigner?: ICallMessageSigner
+  /**
+   * 签名消息的有效期（毫秒），message_timestamp 与本地时间相差超过有效期的消息被丢弃，默认 60000 (0表示不检查)
+   * 仅在设置了 messageSigner 时生效，需要通话双方的系统时间基本准确
+   */
+  messageExpireMillisecond?: number
+  /** 通话记录存储（例如 CallIndexedDBRecordStore），默认使用 CallMemoryRecordStore */
+  callRecordStore?: CallRecordStore
+  /** 消息扩展信息（extension）配置 */
+  extensionConfig?: ICallExtensionConfig
+  /** RTC断连处理配置 */
+  rtcLostConfig?: IRtcLostConfig
+  /** 日志输出配置 */
+  logConfig?: ICallLogConfig
+  /** 通话追踪配置 */
+  traceConfig?: ICallTraceConfig
+  /** 时钟（时间和定时器），默认使用系统时钟，模拟测试时可以使用 CallVirtualClock */
+  clock?: ICallClock
+}
+
+/** 时钟（时间和定时器） */
+export interface ICallClock {
+  /** 当前时间戳（毫秒） */
+  now(): number
+  setTimeout(callback: () => void, delay: number): any
+  clearTimeout(timer: any): void
+  setInterval(callback: () => void, interval: number): any
+  clearInterval(timer: any): void
+}
+
+/** 日志输出配置 */
+export interface ICallLogConfig {
+  /** 日志输出目标（例如 CallConsoleLogSink），默认只输出到 rtc sdk 日志（CallReportLogSink） */
+  sinks?: CallLogSink[]
+  /** exportLogs 保留的最近日志条数，默认 1000 */
+  bufferSize?: number
+  /** exportLogs 时需要隐藏的字段，默认已隐藏 token、appCertificate、secret、signature */
+  redactKeys?: string[]
+}
+
+/** RTC断连处理配置 */
+export interface IRtcLostConfig {
+  /** 本地RTC重连的等待时间（毫秒），超时后结束通话（原因为 CallStateReason.rtcLost），默认 20000，0 表示不结束 */
+  reconnectTimeoutMillisecond?: number
+  /** 一对一通话中远端用户网络断开后等待其重新加入的时间（毫秒），超时后结束通话（原因为 CallStateReason.remoteRtcLost），默认 20000 */
+  remoteReconnectTimeoutMillisecond?: number
+}
+
+/** 消息扩展信息（extension）配置 */
+export interface ICallExtensionConfig {
+  /** 序列化后的最大字节数，超出时发送方抛出异常、接收方丢弃消息，默认 4096 */
+  maxSize?: number
+  /** 允许打印到日志中的字段，其他字段的值在日志中替换为 *** ，默认为空 */
+  logKeys?: string[]
+}
+
+/** 消息通道断连处理配置 */
+export interface IRtmLostConfig {
+  /** 通话中消息通道断连的处理策略，默认 RtmLostPolicy.endCall */
+  policy?: RtmLostPolicy
+  /** 消息通道断连期间是否拒绝发起呼叫，默认 true */
+  refuseCallWhenLost?: boolean
+  /** 断连（包括重连中）后等待恢复的时间（毫秒），超时后才执行处理策略，默认 15000（0表示立即执行） */
+  lostTimeoutMillisecond?: number
+}
+
+/**
+ * 通话中消息通道断连的处理策略
+ */
+export enum RtmLostPolicy {
+  /** 结束通话（原因为 CallStateReason.rtmLost） */
+  endCall = 0,
+  /** 已接通且音视频仍在传输时保持通话，否则结束通话（保持期间音视频停止传输时结束通话） */
+  keepWhileMediaFlowing = 1,
+}
+
+/**
+ * token 类型
+ */
+export enum CallTokenType {
+  /** rtc token */
+  rtc = 0,
+  /** 消息通道 token（例如 rtm token） */
+  message = 1,
+}
+
+/** 消息回执配置 */
+export interface IReceiptConfig {
+  /** 首次重发间隔（毫秒），之后每次翻倍，默认 1000 */
+  retryIntervalMillisecond?: number
+  /** 最大重发间隔（毫秒），默认 4000 */
+  maxRetryIntervalMillisecond?: number
+  /**
+   * 等待回执的截止时间（毫秒），超过后触发 missingReceipts 事件，默认 10000 (0表示不等待回执)
+   *
+   * 呼叫邀请总是重发和触发 missingReceipts；其他消息只对已知支持回执的对端
+   * （收到过对端带 messageId 的消息或回执）重发和触发 missingReceipts，不支持回执的对端（例如旧版本）只发送一次
+   */
+  timeoutMillisecond?: number
 }
 
 export interface IPrepareConfig {
@@ -41,6 +170,8 @@ export interface IPrepareConfig {
   audioConfig?: MicrophoneAudioTrackInitConfig
   /** 视频track配置 */
   videoConfig?: CameraVideoTrackInitConfig
+  /** 屏幕共享track配置 */
+  screenConfig?: ScreenVideoTrackInitConfig
   /**
    * 接通状态是否禁止等待首帧 
    * 
@@ -49,6 +180,27 @@ export interface IPrepareConfig {
    * false: 否，会等待音频首帧（音频呼叫）或视频首帧(视频呼叫)
    */
   firstFrameWaittingDisabled?: boolean
+  /**
+   * 是否开启呼叫等待
+   *
+   * true: 通话中收到新的呼叫时触发 callWaiting 回调，由用户选择拒绝，或保持/结束当前通话后接听新的呼叫
+   *
+   * false: 通话中收到新的呼叫时自动拒绝（远端收到 CallStateReason.remoteCallBusy）
+   */
+  callWaitingEnabled?: boolean
+  /** 通话质量统计间隔（毫秒），接通后按该间隔触发 callStatsChanged，默认 2000，0 表示不统计 */
+  statsIntervalMillisecond?: number
+  /**
+   * 视频关闭时显示的占位元素（本地和远端），不设置时显示默认的黑色背景
+   * @param userId 关闭视频的用户ID
+   */
+  videoPlaceholder?: (userId: number) => HTMLElement
+  /** 通话时长回调（callDurationChanged）的间隔（毫秒），默认 1000，0 表示不回调 */
+  durationTickIntervalMillisecond?: number
+  /** 最大通话时长（毫秒），从接通开始计算，超过后双方自动挂断（原因为 CallStateReason.maxDurationReached），默认不限制 */
+  maxCallDurationMillisecond?: number
+  /** 达到最大通话时长前多久触发 CallEvent.callDurationWarning（毫秒），默认 60000 */
+  callDurationWarningMillisecond?: number
 }
 
 /**
@@ -110,6 +262,12 @@ export enum CallStateReason {
   rtmLost = 16,
   /** 远端用户忙 */
   remoteCallBusy = 17,
+  /** 本地RTC重连超时 */
+  rtcLost = 18,
+  /** 远端用户RTC断开后未在等待时间内重新加入 */
+  remoteRtcLost = 19,
+  /** 达到最大通话时长 */
+  maxDurationReached = 20,
   /** 本地发起视频呼叫 */
   localVideoCall = 30,
   /** 本地发起音频呼叫 */
@@ -118,6 +276,32 @@ export enum CallStateReason {
   remoteVideoCall = 32,
   /** 远端发起音频呼叫 */
   remoteAudioCall = 33,
+  /** 本地恢复被保持的通话 */
+  localResumed = 40,
+  /** 本地保持通话 */
+  localHeld = 41,
+}
+
+/**
+ * 通话中的角色
+ */
+export enum CallRole {
+  /** 主叫 */
+  caller = 0,
+  /** 被叫 */
+  callee = 1,
+}
+
+/** 呼叫状态流转 */
+export interface ICallStateTransition {
+  /** 触发状态变更的原因 */
+  reason: CallStateReason
+  /** 允许的起始状态 */
+  from: CallStateType[]
+  /** 目标状态 */
+  to: CallStateType
+  /** 仅允许该角色触发（不设置表示主叫被叫均可） */
+  role?: CallRole
 }
 
 /**
@@ -129,18 +313,30 @@ export enum CallEvent {
   /** 销毁 */
   deinitialize = 1,
   /** 没有收到消息回执 */
-  // missingReceipts = 2,
+  missingReceipts = 2,
   /** 呼叫超时 */
   callingTimeout = 3,
   /** 远端呼叫超时 */
   remoteCallingTimeout = 4,
   /** 加入RTC成功 */
   joinRTCSuccessed = 5,
+  /** 消息通道断连 */
+  rtmLost = 6,
+  /** 消息通道恢复连接 */
+  rtmReconnected = 7,
+  /** 本地RTC断开，正在重连 */
+  rtcReconnecting = 8,
   /** 状态流转异常 */
   stateMismatch = 9,
   /** 开始加入rtc */
   joinRTCStart = 10,
-  /** 主叫呼叫成功 */
+  /** 本地RTC重连成功 */
+  rtcReconnected = 11,
+  /** 远端用户网络断开（不是挂断），等待其重新加入 */
+  remoteReconnecting = 12,
+  /** 远端用户网络恢复，重新加入 */
+  remoteReconnected = 13,
+  /** 主叫呼叫成功（对端支持回执时在收到回执后触发，否则在呼叫消息发送成功后触发） */
   remoteUserRecvCall = 99,
   /** 本地用户拒绝 */
   localRejected = 100,
@@ -182,6 +378,97 @@ export enum CallEvent {
   remoteVideoCall = 142,
   /** 远端发起音频呼叫 */
   remoteAudioCall = 143,
+  /** 等待中的呼叫被远端取消 */
+  waitingCallCancelled = 150,
+  /** 等待中的呼叫超时 */
+  waitingCallTimeout = 151,
+  /** 本地拒绝等待中的呼叫 */
+  waitingCallRejected = 152,
+  /** 本地保持通话 */
+  localHeld = 153,
+  /** 远端保持通话 */
+  remoteHeld = 154,
+  /** 远端恢复通话 */
+  remoteResumed = 155,
+  /** 被保持的通话被远端挂断 */
+  heldCallHangup = 156,
+  /** 当前使用的摄像头被移除，已切换到其他摄像头（eventReason 为新设备的名称） */
+  cameraFallback = 160,
+  /** 当前使用的麦克风被移除，已切换到其他麦克风（eventReason 为新设备的名称） */
+  microphoneFallback = 161,
+  /** 当前使用的扬声器被移除，已切换到其他扬声器（eventReason 为新设备的名称） */
+  speakerFallback = 162,
+  /** 当前使用的摄像头被移除，且没有其他可用的摄像头 */
+  noCameraAvailable = 163,
+  /** 当前使用的麦克风被移除，且没有其他可用的麦克风 */
+  noMicrophoneAvailable = 164,
+  /** 本地开始屏幕共享 */
+  localScreenShareStarted = 170,
+  /** 本地停止屏幕共享 */
+  localScreenShareStopped = 171,
+  /** 用户通过浏览器停止了屏幕共享 */
+  localScreenShareEnded = 172,
+  /** 远端开始屏幕共享（eventReason 为远端用户ID） */
+  remoteScreenShareStarted = 173,
+  /** 远端停止屏幕共享（eventReason 为远端用户ID） */
+  remoteScreenShareStopped = 174,
+  /** 本地发起切换呼叫类型的请求（eventReason 为目标呼叫类型） */
+  localSwitchCallTypeRequested = 180,
+  /** 收到远端切换呼叫类型的请求，需要调用 acceptSwitchCallType 或 declineSwitchCallType（eventReason 为目标呼叫类型） */
+  remoteSwitchCallTypeRequested = 181,
+  /** 远端同意切换呼叫类型 */
+  switchCallTypeAccepted = 182,
+  /** 远端拒绝切换呼叫类型（eventReason 为拒绝原因） */
+  switchCallTypeDeclined = 183,
+  /**
+   * 切换呼叫类型的请求超时未响应（超时时间为 callTimeoutMillisecond，未设置时为 15000）
+   * 会通知远端取消请求，超时后 30 秒内与取消交错到达的同意仍会切换
+   */
+  switchCallTypeTimeout = 184,
+  /** 呼叫类型已切换（eventReason 为新的呼叫类型） */
+  callTypeChanged = 185,
+  /** 远端取消了切换呼叫类型的请求（请求超时） */
+  remoteSwitchCallTypeCancelled = 186,
+  /** 即将达到最大通话时长（eventReason 为剩余时长，单位毫秒） */
+  callDurationWarning = 190,
+  /** 达到最大通话时长，自动挂断 */
+  callDurationLimitReached = 191,
+}
+
+/** 媒体设备列表 */
+export interface ICallDevices {
+  /** 摄像头 */
+  cameras: MediaDeviceInfo[]
+  /** 麦克风 */
+  microphones: MediaDeviceInfo[]
+  /** 扬声器 */
+  speakers: MediaDeviceInfo[]
+}
+
+/**
+ * 呼叫模式
+ */
+export enum CallMode {
+  /** 一对一通话 */
+  single = 0,
+  /** 群组通话 */
+  group = 1,
+}
+
+/**
+ * 群组通话成员状态
+ */
+export enum ParticipantState {
+  /** 呼叫中（未应答） */
+  invited = 0,
+  /** 已接受 */
+  accepted = 1,
+  /** 已拒绝 */
+  rejected = 2,
+  /** 已加入（已接受且加入了RTC频道） */
+  joined = 3,
+  /** 已离开 */
+  left = 4,
 }
 
 /**
@@ -201,8 +488,54 @@ export enum CallErrorEvent {
   /** rtc出现错误 */
   rtcOccurError = 100, //
   //  startCaptureFail = 110       //rtc开启采集失败
+  /** rtc token 更新失败 */
+  renewRtcTokenFail = 120,
   /** 消息发送失败 */
   sendMessageFail = 210,
+  /** 消息通道 token 更新失败 */
+  renewMessageTokenFail = 220,
+  /** 收到无法处理的消息（格式错误/版本不支持/已过期） */
+  receiveInvalidMessage = 230,
+  /** 收到签名校验失败的消息 */
+  verifyMessageFail = 240,
+}
+
+/**
+ * 消息校验失败的错误码（CallErrorEvent.receiveInvalidMessage 的 errorCode）
+ */
+export enum CallMessageErrorCode {
+  /** 格式错误 */
+  invalidFormat = "INVALID_MESSAGE_FORMAT",
+  /** 不支持的消息版本（未设置 messageSigner 时自动拒绝该版本的呼叫） */
+  unsupportedVersion = "UNSUPPORTED_MESSAGE_VERSION",
+  /** 签名校验失败（包括获取通话密钥失败） */
+  invalidSignature = "INVALID_MESSAGE_SIGNATURE",
+  /** 扩展信息超出大小限制 */
+  extensionTooLarge = "MESSAGE_EXTENSION_TOO_LARGE",
+  /** 签名消息已过期（message_timestamp 超出有效期） */
+  expired = "MESSAGE_EXPIRED",
+}
+
+/**
+ * 消息签名器
+ *
+ * 配置后发送的消息都会带上签名，收到的消息签名校验失败时丢弃并触发 CallErrorEvent.verifyMessageFail
+ */
+export interface ICallMessageSigner {
+  /**
+   * 对消息签名
+   * @param payload 消息内容
+   * @param callId 通话ID（可用于生成每个通话独立的密钥）
+   * @returns 签名
+   */
+  sign(payload: string, callId: string): Promise<string>
+  /**
+   * 校验消息签名
+   * @param payload 消息内容
+   * @param signature 签名
+   * @param callId 通话ID
+   */
+  verify(payload: string, signature: string, callId: string): Promise<boolean>
 }
 
 /** 呼叫错误事件的错误码类型 */
@@ -246,6 +579,39 @@ export interface CallApiEvents {
    *  @param callInfo 通话信息
    */
   callInfoChanged: (callInfo: ICallInfo) => void
+  /**
+   * 群组通话成员状态变更回调
+   * @param userId 成员用户ID
+   * @param state 成员状态
+   */
+  participantStateChanged: (userId: number, state: ParticipantState) => void
+  /**
+   * 呼叫等待回调（需开启 IPrepareConfig.callWaitingEnabled）
+   * @param fromUserId 新的呼叫的主叫用户ID
+   * @param eventInfo 扩展信息
+   */
+  callWaiting: (fromUserId: number, eventInfo: Record<string, any>) => void
+  /**
+   * 通话记录生成回调（通话结束后触发）
+   * @param record 通话记录
+   */
+  callRecordAdded: (record: ICallRecord) => void
+  /**
+   * 通话质量统计回调（接通后按 IPrepareConfig.statsIntervalMillisecond 间隔触发）
+   * @param stats 通话质量统计
+   */
+  callStatsChanged: (stats: ICallStats) => void
+  /**
+   * 远端用户静音状态变更回调
+   * @param userId 远端用户ID
+   * @param muteState 静音状态
+   */
+  remoteMuteStateChanged: (userId: number, muteState: IMuteState) => void
+  /**
+   * 通话时长回调（接通后按 IPrepareConfig.durationTickIntervalMillisecond 间隔触发）
+   * @param duration 通话时长（毫秒）
+   */
+  callDurationChanged: (duration: number) => void
   /**
    * 发生错误的回调
    * @param errorEvent 错误事件
@@ -263,9 +629,317 @@ export interface CallApiEvents {
 
 export interface CallMessageManagerEvents {
   messageReceive: (data: string) => void
-  // TODO:[callApi] tokenWillExpire internal implementation
   tokenWillExpire: (channelName: string) => void // channelName
   disconnected: (channelName: string) => void // channelName
+  connected: (channelName: string) => void // channelName
+}
+
+/** 媒体引擎中的远端用户 */
+export type ICallMediaRemoteUser = Pick<
+  IAgoraRTCRemoteUser,
+  "uid" | "audioTrack" | "videoTrack" | "hasAudio" | "hasVideo"
+>
+
+/** 媒体引擎事件（与 rtc sdk 的事件名和参数一致） */
+export interface CallMediaEngineEvents {
+  "connection-state-change": (
+    curState: ConnectionState,
+    revState: ConnectionState,
+    reason?: string,
+  ) => void
+  "user-joined": (user: ICallMediaRemoteUser) => void
+  "user-left": (user: ICallMediaRemoteUser, reason: string) => void
+  "user-published": (
+    user: ICallMediaRemoteUser,
+    mediaType: "audio" | "video",
+  ) => void
+  "user-unpublished": (
+    user: ICallMediaRemoteUser,
+    mediaType: "audio" | "video",
+  ) => void
+  "network-quality": (quality: NetworkQuality) => void
+  "token-privilege-will-expire": () => void
+  "token-privilege-did-expire": () => void
+  "camera-changed": (info: DeviceInfo) => void
+  "microphone-changed": (info: DeviceInfo) => void
+  "playback-device-changed": (info: DeviceInfo) => void
+}
+
+/**
+ * 媒体引擎
+ *
+ * CallApi 通过媒体引擎加入频道、创建和发布轨道、订阅远端用户，
+ * 默认使用 CallAgoraMediaEngine，离线测试时可以使用 CallFakeMediaEngine
+ */
+export interface ICallMediaEngine {
+  /** 频道连接状态 */
+  readonly connectionState: ConnectionState
+  /** 频道中的远端用户 */
+  readonly remoteUsers: ICallMediaRemoteUser[]
+
+  on<Key extends keyof CallMediaEngineEvents>(
+    evt: Key,
+    cb: CallMediaEngineEvents[Key],
+  ): unknown
+  off<Key extends keyof CallMediaEngineEvents>(
+    evt: Key,
+    cb: CallMediaEngineEvents[Key],
+  ): unknown
+
+  /**
+   * 加入频道
+   * @param appId 声网 App Id
+   * @param roomId 频道名
+   * @param token rtc token
+   * @param userId 用户ID
+   */
+  join(appId: string, roomId: string, token: string, userId: number): Promise<void>
+  /** 离开频道 */
+  leave(): Promise<void>
+  /**
+   * 更新 rtc token
+   * @param token 新的token
+   */
+  renewToken(token: string): Promise<void>
+  /** 发布本地轨道 */
+  publish(tracks: ILocalTrack | ILocalTrack[]): Promise<void>
+  /** 取消发布本地轨道 */
+  unpublish(tracks: ILocalTrack | ILocalTrack[]): Promise<void>
+  /** 订阅远端用户，成功后可以从 user.audioTrack / user.videoTrack 获取远端轨道 */
+  subscribe(
+    user: ICallMediaRemoteUser,
+    mediaType: "audio" | "video",
+  ): Promise<void>
+  /** 取消订阅远端用户 */
+  unsubscribe(
+    user: ICallMediaRemoteUser,
+    mediaType: "audio" | "video",
+  ): Promise<void>
+
+  createMicrophoneAudioTrack(
+    config?: MicrophoneAudioTrackInitConfig,
+  ): Promise<IMicrophoneAudioTrack>
+  createCameraVideoTrack(
+    config?: CameraVideoTrackInitConfig,
+  ): Promise<ICameraVideoTrack>
+  createMicrophoneAndCameraTracks(
+    audioConfig?: MicrophoneAudioTrackInitConfig,
+    videoConfig?: CameraVideoTrackInitConfig,
+  ): Promise<[IMicrophoneAudioTrack, ICameraVideoTrack]>
+  /** 创建屏幕共享轨道（不采集系统音频） */
+  createScreenVideoTrack(
+    config: ScreenVideoTrackInitConfig,
+  ): Promise<ILocalVideoTrack>
+
+  getDevices(): Promise<MediaDeviceInfo[]>
+  getCameras(skipPermissionCheck?: boolean): Promise<MediaDeviceInfo[]>
+  getMicrophones(skipPermissionCheck?: boolean): Promise<MediaDeviceInfo[]>
+  getPlaybackDevices(skipPermissionCheck?: boolean): Promise<MediaDeviceInfo[]>
+
+  getRTCStats(): AgoraRTCStats
+  getLocalAudioStats(): LocalAudioTrackStats
+  getLocalVideoStats(): LocalVideoTrackStats
+  getRemoteAudioStats(): { [uid: string]: RemoteAudioTrackStats }
+  getRemoteVideoStats(): { [uid: string]: RemoteVideoTrackStats }
+
+  /** 释放引擎（移除事件监听等），释放后不能再使用 */
+  release(): void
+}
+
+/**
+ * 通话方向
+ */
+export enum CallDirection {
+  /** 呼出 */
+  outgoing = 0,
+  /** 呼入 */
+  incoming = 1,
+}
+
+/**
+ * 通话结果
+ */
+export enum CallOutcome {
+  /** 已接通 */
+  completed = 0,
+  /** 未接来电 */
+  missed = 1,
+  /** 被拒绝（本地或远端） */
+  rejected = 2,
+  /** 忙线 */
+  busy = 3,
+  /** 主叫取消 */
+  cancelled = 4,
+  /** 呼出无人接听 */
+  noAnswer = 5,
+  /** 失败（消息发送失败、消息通道断连等） */
+  failed = 6,
+}
+
+/** 通话记录 */
+export interface ICallRecord {
+  /** 通话ID */
+  callId: string
+  /** 对端用户ID（群组通话时为主叫用户ID或第一个被叫用户ID） */
+  remoteUserId: number
+  /** 群组通话的其他成员ID（不包含自己） */
+  remoteUserIds?: number[]
+  /** 通话方向 */
+  direction: CallDirection
+  /** 呼叫类型 */
+  callType: CallType
+  /** 通话模式 */
+  callMode: CallMode
+  /** 开始呼叫的时间戳（毫秒） */
+  startTime: number
+  /** 接通的时间戳（毫秒），未接通时为0 */
+  answerTime: number
+  /** 结束的时间戳（毫秒） */
+  endTime: number
+  /** 通话时长（毫秒），从接通开始计算，未接通时为0 */
+  duration: number
+  /** 结束通话的原因 */
+  endReason: CallStateReason
+  /** 通话结果 */
+  outcome: CallOutcome
+  /** 通话质量统计汇总（接通且至少统计过一次时存在） */
+  statsSummary?: ICallStatsSummary
+}
+
+/** 远端用户通话质量统计 */
+export interface ICallRemoteStats {
+  /** 远端用户ID */
+  userId: number
+  /** 接收码率 (bps) */
+  receiveBitrate: number
+  /** 接收丢包率 (%) */
+  packetLossRate: number
+  /** 端到端延迟 (ms) */
+  end2EndDelay: number
+  /** 接收分辨率宽 */
+  width: number
+  /** 接收分辨率高 */
+  height: number
+  /** 接收帧率 */
+  frameRate: number
+  /** 音量 (0 ~ 1) */
+  audioLevel: number
+}
+
+/** 通话质量统计 */
+export interface ICallStats {
+  /** 统计时间戳（毫秒） */
+  timestamp: number
+  /** 往返时延 (ms) */
+  rtt: number
+  /** 上行网络质量（0 ~ 6，数值越大越差，0 表示未知） */
+  uplinkNetworkQuality: number
+  /** 下行网络质量（0 ~ 6，数值越大越差，0 表示未知） */
+  downlinkNetworkQuality: number
+  /** 发送码率 (bps) */
+  sendBitrate: number
+  /** 接收码率 (bps) */
+  receiveBitrate: number
+  /** 发送丢包率 (%) */
+  sendPacketLossRate: number
+  /** 接收丢包率 (%)，多个远端用户时取最大值 */
+  receivePacketLossRate: number
+  /** 发送分辨率宽（音频呼叫时为0） */
+  sendWidth: number
+  /** 发送分辨率高（音频呼叫时为0） */
+  sendHeight: number
+  /** 发送帧率（音频呼叫时为0） */
+  sendFrameRate: number
+  /** 本地音量 (0 ~ 1) */
+  localAudioLevel: number
+  /** 远端用户的统计 */
+  remoteUsers: ICallRemoteStats[]
+}
+
+/** 通话质量统计汇总 */
+export interface ICallStatsSummary {
+  /** 统计次数 */
+  samples: number
+  /** 平均往返时延 (ms) */
+  avgRtt: number
+  /** 最大往返时延 (ms) */
+  maxRtt: number
+  /** 平均发送码率 (bps) */
+  avgSendBitrate: number
+  /** 平均接收码率 (bps) */
+  avgReceiveBitrate: number
+  /** 平均发送丢包率 (%) */
+  avgSendPacketLossRate: number
+  /** 平均接收丢包率 (%) */
+  avgReceivePacketLossRate: number
+  /** 最差的上行网络质量 */
+  worstUplinkNetworkQuality: number
+  /** 最差的下行网络质量 */
+  worstDownlinkNetworkQuality: number
+}
+
+/** 通话记录查询条件 */
+export interface ICallRecordQuery {
+  /** 对端用户ID */
+  remoteUserId?: number
+  /** 通话方向 */
+  direction?: CallDirection
+  /** 呼叫类型 */
+  callType?: CallType
+  /** 通话结果（满足其中之一即可） */
+  outcomes?: CallOutcome[]
+  /** 开始呼叫的时间戳不早于该值 */
+  startTimeFrom?: number
+  /** 开始呼叫的时间戳不晚于该值 */
+  startTimeTo?: number
+  /** 跳过的条数，默认 0 */
+  offset?: number
+  /** 返回的最大条数，默认不限制 */
+  limit?: number
+}
+
+/**
+ * 通话追踪记录类型
+ */
+export enum CallTraceType {
+  /** 呼叫状态变更 */
+  stateChanged = 0,
+  /** 呼叫事件（CallEvent） */
+  event = 1,
+  /** 发送消息 */
+  messageSent = 2,
+  /** 接收消息 */
+  messageReceived = 3,
+  /** RTC 事件 */
+  rtcEvent = 4,
+}
+
+/** 通话追踪记录 */
+export interface ICallTraceEntry {
+  /** 记录类型 */
+  type: CallTraceType
+  /** 时间戳（毫秒） */
+  timestamp: number
+  /** 记录内容（消息中的扩展信息按 extensionConfig.logKeys 隐藏） */
+  data: Record<string, any>
+}
+
+/** 通话追踪（可以直接 JSON.stringify 导出） */
+export interface ICallTrace {
+  /** 通话ID */
+  callId: string
+  /** 记录追踪的用户ID（合并双方的追踪时用于区分） */
+  userId: number
+  /** 追踪记录，按时间排序 */
+  entries: ICallTraceEntry[]
+}
+
+/** 通话追踪配置 */
+export interface ICallTraceConfig {
+  /** 保留最近的通话数，默认 10，0 表示不追踪 */
+  maxCalls?: number
+  /** 每个通话最多保留的记录数，超出后丢弃最早的记录，默认 1000 */
+  maxEntries?: number
 }
 
 /** 通话信息 */
@@ -299,10 +973,28 @@ export enum LogLevel {
   ERROR = 2,
 }
 
+/** 结构化日志 */
+export interface ICallLogEntry {
+  /** 日志等级 */
+  level: LogLevel
+  /** 时间戳（毫秒） */
+  timestamp: number
+  /** 日志前缀（模块名） */
+  prefix: string
+  /** 日志内容 */
+  message: string
+  /** 输出日志时的通话ID */
+  callId?: string
+  /** 输出日志时的呼叫状态 */
+  state?: CallStateType
+}
+
 /** 本地用户轨道 */
 export interface ILocalTracks {
   videoTrack?: ICameraVideoTrack
   audioTrack?: IMicrophoneAudioTrack
+  /** 屏幕共享轨道（共享期间代替摄像头轨道发布） */
+  screenTrack?: ILocalVideoTrack
 }
 
 /** 远端用户轨道 */
@@ -311,6 +1003,26 @@ export interface IRemoteTracks {
   audioTrack?: IRemoteAudioTrack
 }
 
+/** 静音状态 */
+export interface IMuteState {
+  /** 音频是否静音 */
+  audio: boolean
+  /** 视频是否关闭 */
+  video: boolean
+}
+
+/** 群组通话成员 */
+export interface ICallParticipant {
+  /** 用户ID */
+  userId: number
+  /** 成员状态 */
+  state: ParticipantState
+  /** 是否在RTC频道内 */
+  inChannel: boolean
+  /** 成员的远端轨道 */
+  tracks: IRemoteTracks
+}
+
 // -------------- hidden --------------
 
 /** @hidden */
@@ -320,14 +1032,24 @@ export type EventHandler<T extends any[]> = (...data: T) => void
 export interface ICallMessage {
   message_version: string
   message_timestamp?: number
+  messageId?: string // 消息ID
+  ackMessageId?: string // 回执对应的消息ID
   callId: string
   remoteUserId: number
   fromUserId: number
   message_action: CallAction
   fromRoomId: string
+  remoteUserIds?: number[] // 群组呼叫的被叫列表
   rejectReason?: string // 拒绝原因
   rejectByInternal?: RejectByInternal // 拒绝原因
   cancelCallByInternal?: RejectByInternal // 取消呼叫原因
+  signature?: string // 消息签名
+  audioMuted?: boolean // 音频是否静音
+  videoMuted?: boolean // 视频是否关闭
+  screenSharing?: boolean // 是否正在屏幕共享
+  callType?: CallType // 切换呼叫类型的目标类型
+  extension?: Record<string, any> // 业务自定义的扩展信息
+  hangupReason?: CallStateReason // 挂断原因（仅用于 CallStateReason.maxDurationReached）
 }
 
 /** @hidden */
@@ -338,4 +1060,13 @@ export enum CallAction {
   Reject = 3, // 拒绝
   Hangup = 4, // 挂断
   AudioCall = 10, // 音频呼叫
+  Ack = 20, // 消息回执
+  Hold = 21, // 保持通话
+  Resume = 22, // 恢复通话
+  MuteState = 23, // 同步静音状态
+  ScreenShare = 24, // 同步屏幕共享状态
+  SwitchCallType = 25, // 请求切换呼叫类型
+  SwitchCallTypeAccept = 26, // 同意切换呼叫类型
+  SwitchCallTypeDecline = 27, // 拒绝切换呼叫类型
+  SwitchCallTypeCancel = 28, // 取消切换呼叫类型的请求
 }